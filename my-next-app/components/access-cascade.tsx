@@ -0,0 +1,49 @@
+"use client"
+
+import { Fragment } from "react"
+import { motion } from "framer-motion"
+import { ChevronRight } from "lucide-react"
+import { levelName, type HierarchyAccessResult } from "@/lib/cache-engine"
+
+interface AccessCascadeProps {
+  depth: number
+  access: HierarchyAccessResult | null
+}
+
+// Shows how the latest access walked down the hierarchy: each level it
+// missed in, the level (or main memory) that served it, and the ones it skipped.
+export function AccessCascade({ depth, access }: AccessCascadeProps) {
+  const stops = Array.from({ length: depth + 1 }, (_, level) => {
+    const name = levelName(level, depth)
+    if (!access || level > access.servedBy) return { name, state: "idle" as const }
+    if (level === access.servedBy) return { name, state: "served" as const }
+    return { name, state: "missed" as const }
+  })
+
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-2">
+      {access && <span className="text-sm text-muted-foreground mr-2">Addr {access.address}:</span>}
+      {stops.map((stop, i) => (
+        <Fragment key={stop.name}>
+          {i > 0 && <ChevronRight className="h-4 w-4 text-muted-foreground" />}
+          <motion.div
+            className={`px-3 py-1 rounded-md border-2 text-sm font-mono ${
+              stop.state === "served"
+                ? "bg-[#e9edc9] text-[#606c38] border-[#ccd5ae] dark:bg-green-900 dark:text-green-200 dark:border-green-800"
+                : stop.state === "missed"
+                  ? "bg-[#f8edeb] text-[#9d6b53] border-[#f5cac3] dark:bg-red-900 dark:text-red-200 dark:border-red-800"
+                  : "bg-white text-muted-foreground border-[#e0d0c1] dark:bg-gray-800 dark:border-gray-600"
+            }`}
+            initial={false}
+            animate={stop.state === "idle" ? { scale: 1 } : { scale: [1, 1.1, 1] }}
+            transition={{ duration: 0.4, delay: i * 0.3 }}
+          >
+            {stop.name}
+            {stop.state === "missed" && " ✗"}
+            {stop.state === "served" && " ✓"}
+          </motion.div>
+        </Fragment>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,275 @@
+"use client"
+
+import type React from "react"
+
+import { useEffect, useRef, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Progress } from "@/components/ui/progress"
+import { Cpu, FileUp, X } from "lucide-react"
+import { CacheMemory } from "@/components/cache-memory"
+import { CacheStats } from "@/components/cache-stats"
+import {
+  DEFAULT_REPLACEMENT_OPTIONS,
+  MAX_BACKGROUND_ACCESSES,
+  MAX_BACKGROUND_PASSES,
+  MAX_TRACE_ACCESSES,
+  backgroundFileLimit,
+  validatePasses,
+  type BackgroundProgress,
+  type BackgroundResult,
+  type CacheConfig,
+  type DerivedGeometry,
+  type TraceAccess,
+} from "@/lib/cache-engine"
+import type { BackgroundRun } from "@/lib/cache-engine/background-runner"
+import type { BackgroundSource } from "@/lib/cache-engine/background-protocol"
+
+interface BackgroundRunPanelProps {
+  trace: TraceAccess[] // The trace loaded on the page, may be empty
+  maxAddress: number
+  l1: CacheConfig // For drawing the sampled L1 contents
+  l1Layout: DerivedGeometry
+  onRun: (source: BackgroundSource, passes: number, onProgress: (progress: BackgroundProgress) => void) => BackgroundRun
+  disabled?: boolean
+}
+
+// A finished run with the L1 it ran on, which may since have been reconfigured
+interface FinishedRun {
+  result: BackgroundResult
+  passes: number
+  l1: CacheConfig
+  l1Layout: DerivedGeometry
+}
+
+const percent = (rate: number) => `${(rate * 100).toFixed(2)}%`
+
+const PLOT_WIDTH = 400
+
+// Runs the loaded trace or a trace file, repeated if asked, in a worker so the
+// page stays responsive. Files are read by the worker, so they may be far longer
+// than a trace loaded on the page. Shows the final statistics and the caches at
+// evenly spaced points.
+export function BackgroundRunPanel({ trace, maxAddress, l1, l1Layout, onRun, disabled }: BackgroundRunPanelProps) {
+  const [fromFile, setFromFile] = useState(false)
+  const [file, setFile] = useState<File | null>(null)
+  const [fold, setFold] = useState(true)
+  const [passesInput, setPassesInput] = useState("1")
+  const [progress, setProgress] = useState<BackgroundProgress | null>(null)
+  const [finished, setFinished] = useState<FinishedRun | null>(null)
+  const [sampleIndex, setSampleIndex] = useState(0)
+  const [error, setError] = useState<string | null>(null)
+  const runRef = useRef<BackgroundRun | null>(null)
+  const inputRef = useRef<HTMLInputElement>(null)
+
+  // A run outliving the panel would keep its worker busy for nothing
+  useEffect(() => () => runRef.current?.cancel(), [])
+
+  // Without a loaded trace a file is the only source
+  const usesFile = fromFile || trace.length === 0
+  const passes = Number(passesInput)
+  const errors = validatePasses(passes, usesFile ? 0 : trace.length)
+  const canRun = errors.length === 0 && (usesFile ? file !== null : trace.length > 0)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!canRun || runRef.current) return
+
+    const source: BackgroundSource =
+      usesFile && file ? { kind: "file", file, maxAddress, fold } : { kind: "trace", trace }
+    const started = { passes, l1, l1Layout }
+    const run = onRun(source, passes, setProgress)
+    runRef.current = run
+    // Files report their length once the worker has parsed them
+    setProgress({ done: 0, total: source.kind === "trace" ? trace.length * passes : 0, hitRate: 0 })
+    setError(null)
+    try {
+      const result = await run.result
+      setFinished({ result, ...started })
+      setSampleIndex(result.samples.length - 1)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err))
+    } finally {
+      runRef.current = null
+      setProgress(null)
+    }
+  }
+
+  const samples = finished?.result.samples ?? []
+  const sample = samples[sampleIndex]
+
+  return (
+    <div className="rounded-lg border border-[#e0d0c1] dark:border-gray-700 p-4 space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <Button
+          type="button"
+          size="sm"
+          variant={usesFile ? "outline" : "default"}
+          onClick={() => setFromFile(false)}
+          disabled={trace.length === 0 || progress !== null}
+        >
+          Loaded Trace
+        </Button>
+        <Button
+          type="button"
+          size="sm"
+          variant={usesFile ? "default" : "outline"}
+          onClick={() => setFromFile(true)}
+          disabled={progress !== null}
+        >
+          Trace File
+        </Button>
+        {usesFile && (
+          <>
+            <input
+              ref={inputRef}
+              type="file"
+              accept=".din,.csv,.txt,.out,.log,text/*"
+              className="hidden"
+              onChange={(e) => {
+                setFile(e.target.files?.[0] ?? null)
+                e.target.value = ""
+              }}
+            />
+            <Button
+              type="button"
+              size="sm"
+              variant="outline"
+              onClick={() => inputRef.current?.click()}
+              disabled={progress !== null}
+            >
+              <FileUp className="h-4 w-4 mr-1" /> Choose File
+            </Button>
+            <span className="text-sm text-muted-foreground">{file ? file.name : "Dinero, Lackey or CSV"}</span>
+            <div className="flex items-center gap-2 ml-auto">
+              <Checkbox
+                id="background-fold"
+                checked={fold}
+                onCheckedChange={(checked) => setFold(checked === true)}
+                disabled={progress !== null}
+              />
+              <Label htmlFor="background-fold" className="text-sm font-normal">
+                Wrap addresses above {maxAddress}
+              </Label>
+            </div>
+          </>
+        )}
+      </div>
+
+      <form onSubmit={handleSubmit} className="flex items-end gap-2">
+        <div>
+          <Label htmlFor="background-passes" className="mb-2 block">
+            Passes
+          </Label>
+          <Input
+            id="background-passes"
+            type="number"
+            min="1"
+            max={MAX_BACKGROUND_PASSES}
+            value={passesInput}
+            onChange={(e) => setPassesInput(e.target.value)}
+            className="w-24"
+            disabled={progress !== null}
+          />
+        </div>
+        {progress ? (
+          <Button type="button" variant="outline" onClick={() => runRef.current?.cancel()}>
+            <X className="h-4 w-4 mr-1" /> Cancel
+          </Button>
+        ) : (
+          <Button type="submit" variant="outline" disabled={disabled || !canRun}>
+            <Cpu className="h-4 w-4 mr-1" /> Run in Background
+          </Button>
+        )}
+        <p className="text-sm text-muted-foreground flex-1">
+          {errors.length > 0
+            ? errors[0]
+            : usesFile
+              ? `The worker parses the file itself and runs up to ${backgroundFileLimit(passes)} of its accesses ${passes === 1 ? "once" : `${passes} times over`}, at most ${MAX_BACKGROUND_ACCESSES} in all`
+              : `Runs the ${trace.length} accesses of the loaded trace ${passes === 1 ? "once" : `${passes} times over`} on fresh caches in a worker, ${trace.length * passes} in all. Traces on the page stop at ${MAX_TRACE_ACCESSES} accesses, pick a file for longer ones.`}
+        </p>
+      </form>
+
+      {progress && (
+        <div className="space-y-1">
+          <Progress value={progress.total > 0 ? (progress.done / progress.total) * 100 : 0} />
+          <p className="text-xs font-mono text-muted-foreground">
+            {progress.total === 0
+              ? "Reading the trace file..."
+              : `${progress.done} / ${progress.total} accesses, L1 hit rate ${percent(progress.hitRate)}`}
+          </p>
+        </div>
+      )}
+
+      {error && <p className="text-sm text-[#9d6b53] dark:text-red-300 whitespace-pre-line">{error}</p>}
+
+      {finished && sample && (
+        <div className="space-y-3">
+          {finished.result.truncated && (
+            <p className="text-sm text-muted-foreground">
+              The file has more accesses than a run may make, only its first {backgroundFileLimit(finished.passes)} were
+              run
+            </p>
+          )}
+          <CacheStats
+            stats={finished.result.stats[0]}
+            levelStats={finished.result.stats}
+            traffic={finished.result.traffic}
+          />
+
+          {/* L1 hit rate at each sample, from the first access to the last */}
+          <svg
+            viewBox={`0 0 ${PLOT_WIDTH} 100`}
+            preserveAspectRatio="none"
+            className="w-full h-24 rounded-md bg-[#f5e6d8] dark:bg-gray-900"
+            role="img"
+            aria-label="L1 hit rate over the background run"
+          >
+            <polyline
+              points={samples
+                .map((point, i) => `${((i + 0.5) / samples.length) * PLOT_WIDTH},${95 - point.hitRate * 90}`)
+                .join(" ")}
+              fill="none"
+              strokeWidth={1.5}
+              className="stroke-[#bc6c25] dark:stroke-yellow-300"
+            />
+          </svg>
+
+          <div className="flex flex-wrap gap-1 text-xs font-mono">
+            {samples.map((point, i) => (
+              <button
+                key={point.position}
+                type="button"
+                onClick={() => setSampleIndex(i)}
+                className={`rounded px-2 py-0.5 ${i === sampleIndex ? "bg-[#bc6c25] text-white dark:bg-yellow-600" : "bg-[#e0d0c1] dark:bg-gray-700"}`}
+                title={`L1 hit rate ${percent(point.hitRate)} after ${point.position} accesses`}
+              >
+                #{point.position}
+              </button>
+            ))}
+          </div>
+
+          <p className="text-sm text-muted-foreground">
+            L1 after {sample.position} of {finished.result.accesses} accesses, hit rate {percent(sample.hitRate)}
+          </p>
+          <CacheMemory
+            cache={sample.snapshot.lines[0]}
+            numSets={finished.l1Layout.numSets}
+            ways={finished.l1Layout.ways}
+            blockSize={finished.l1.blockSize}
+            animatingBlock={null}
+            replacementPolicy={finished.l1.replacementPolicy}
+            policyBits={sample.snapshot.policyBits[0]}
+            clockHands={sample.snapshot.clockHands[0]}
+            policyLists={sample.snapshot.policyLists[0]}
+            agingCountdown={sample.snapshot.agingCountdowns[0]}
+            rrpvBits={{ ...DEFAULT_REPLACEMENT_OPTIONS, ...finished.l1.replacementOptions }.rrpvBits}
+            duel={sample.snapshot.duels[0]}
+          />
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,74 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { FastForward, Square } from "lucide-react"
+import type { BatchProgress } from "@/hooks/use-cache-simulation"
+
+interface BatchRunProps {
+  remaining: number // Accesses left on the timeline
+  progress: BatchProgress | null // Set while a run is going
+  onRun: (refreshEvery: number | null) => void
+  onStop: () => void
+  disabled?: boolean
+}
+
+// Runs the rest of the timeline at once, without animations or toasts. The
+// caches are redrawn every so many accesses, or only at the end.
+export function BatchRun({ remaining, progress, onRun, onStop, disabled }: BatchRunProps) {
+  const [refreshDraft, setRefreshDraft] = useState("")
+
+  const refreshEvery = Number(refreshDraft)
+  const error =
+    refreshDraft.trim() === "" || (Number.isInteger(refreshEvery) && refreshEvery >= 1)
+      ? null
+      : "The refresh interval must be a whole number of accesses, at least 1"
+
+  return (
+    <div className="space-y-1">
+      <Label htmlFor="batch-refresh" className="mb-2 block">
+        Refresh Every (accesses)
+      </Label>
+      <div className="flex gap-2">
+        <Input
+          id="batch-refresh"
+          type="number"
+          min="1"
+          value={refreshDraft}
+          onChange={(e) => setRefreshDraft(e.target.value)}
+          placeholder="Only at the end"
+          className="w-40"
+          disabled={progress !== null}
+        />
+        {progress ? (
+          <Button type="button" variant="outline" onClick={onStop}>
+            <Square className="h-4 w-4 mr-1" /> Stop
+          </Button>
+        ) : (
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => onRun(refreshDraft.trim() === "" ? null : refreshEvery)}
+            disabled={disabled || remaining === 0 || error !== null}
+          >
+            <FastForward className="h-4 w-4 mr-1" /> Run to End
+          </Button>
+        )}
+        {progress && (
+          <span className="self-center text-sm font-mono text-muted-foreground">
+            {progress.done} / {progress.total}
+          </span>
+        )}
+      </div>
+      {error ? (
+        <p className="text-xs text-[#9d6b53] dark:text-red-300">{error}</p>
+      ) : (
+        <p className="text-xs text-muted-foreground">
+          Skips the animations of the {remaining} accesses left. The history catches up once the run stops.
+        </p>
+      )}
+    </div>
+  )
+}
@@ -2,84 +2,136 @@
 
 import type React from "react"
 
-import { useState, useRef } from "react"
+import { useEffect, useState, useRef } from "react"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { useToast } from "@/hooks/use-toast"
+import { useCustomPolicies } from "@/hooks/use-custom-policies"
+import type { QueuedAccess } from "@/hooks/use-cache-simulation"
 import { ArrowRight, RefreshCw, HelpCircle, ArrowLeft } from "lucide-react"
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip"
 import { CacheInfoModal } from "@/components/cache-info-modal"
 import Link from "next/link"
 import { CacheVisualizer } from "./cache-visualizer-comparison"
+import { CacheConfigPanel } from "@/components/cache-config-panel"
+import { SeedControl } from "@/components/seed-control"
+import { PendingQueue } from "@/components/pending-queue"
+import { SpeedControl } from "@/components/speed-control"
+import {
+  ACCESS_TYPES,
+  ACCESS_TYPE_LABELS,
+  BUILT_IN_POLICIES,
+  DEFAULT_GEOMETRY,
+  DEFAULT_SEED,
+  MAPPING_TYPES,
+  REPLACEMENT_POLICIES,
+  REPLACEMENT_POLICY_LABELS,
+  WRITE_MISS_POLICIES,
+  WRITE_MISS_POLICY_LABELS,
+  WRITE_POLICIES,
+  WRITE_POLICY_LABELS,
+  isPolicyAvailable,
+  maxAddress,
+  type AccessType,
+  type CacheGeometry,
+  type MappingType,
+  type ReplacementPolicy,
+  type WriteMissPolicy,
+  type WritePolicy,
+} from "@/lib/cache-engine"
 
-// Cache mapping types
-const MAPPING_TYPES = {
-  DIRECT: "direct",
-  FULLY_ASSOCIATIVE: "fully-associative",
-  SET_ASSOCIATIVE: "set-associative",
-}
+// OPT needs a trace loaded up front, which the comparison page doesn't have.
+// Saved custom policies are listed after these.
+const COMPARABLE_POLICIES = BUILT_IN_POLICIES.filter((policy) => policy !== REPLACEMENT_POLICIES.OPT)
 
-// Replacement policies
-const REPLACEMENT_POLICIES = {
-  FIFO: "fifo",
-  LRU: "lru",
-  LFU: "lfu",
-  RANDOM: "random",
-}
+// List policies are only offered fully associative, so other mappings fall back to `fallback`
+const keepAvailable = (policy: ReplacementPolicy, mappingType: MappingType, fallback: ReplacementPolicy) =>
+  isPolicyAvailable(policy, mappingType) ? policy : fallback
 
 export function CacheComparison() {
   const { toast } = useToast()
-  const [leftMappingType, setLeftMappingType] = useState(MAPPING_TYPES.DIRECT)
-  const [rightMappingType, setRightMappingType] = useState(MAPPING_TYPES.FULLY_ASSOCIATIVE)
-  const [leftReplacementPolicy, setLeftReplacementPolicy] = useState(REPLACEMENT_POLICIES.FIFO)
-  const [rightReplacementPolicy, setRightReplacementPolicy] = useState(REPLACEMENT_POLICIES.LRU)
+  const [leftMappingType, setLeftMappingType] = useState<MappingType>(MAPPING_TYPES.DIRECT)
+  const [rightMappingType, setRightMappingType] = useState<MappingType>(MAPPING_TYPES.FULLY_ASSOCIATIVE)
+  const [leftReplacementPolicy, setLeftReplacementPolicy] = useState<ReplacementPolicy>(REPLACEMENT_POLICIES.FIFO)
+  const [rightReplacementPolicy, setRightReplacementPolicy] = useState<ReplacementPolicy>(REPLACEMENT_POLICIES.LRU)
+  const [leftWritePolicy, setLeftWritePolicy] = useState<WritePolicy>(WRITE_POLICIES.WRITE_BACK)
+  const [rightWritePolicy, setRightWritePolicy] = useState<WritePolicy>(WRITE_POLICIES.WRITE_THROUGH)
+  const [leftWriteMissPolicy, setLeftWriteMissPolicy] = useState<WriteMissPolicy>(WRITE_MISS_POLICIES.WRITE_ALLOCATE)
+  const [rightWriteMissPolicy, setRightWriteMissPolicy] = useState<WriteMissPolicy>(
+    WRITE_MISS_POLICIES.NO_WRITE_ALLOCATE,
+  )
+  const [geometry, setGeometry] = useState<CacheGeometry>(DEFAULT_GEOMETRY)
+  const [seed, setSeed] = useState(DEFAULT_SEED) // Shared, so both sides draw the same random numbers
+  const [speed, setSpeed] = useState(1) // Shared, so both sides finish each access together
+  const [accessType, setAccessType] = useState<AccessType>(ACCESS_TYPES.READ)
   const [addressInput, setAddressInput] = useState("")
   const [showInfoModal, setShowInfoModal] = useState(false)
   const [isAnimating, setIsAnimating] = useState(false)
+  const { policies: customPolicies } = useCustomPolicies()
+  const [leftCustomPolicyId, setLeftCustomPolicyId] = useState<string | null>(null)
+  const [rightCustomPolicyId, setRightCustomPolicyId] = useState<string | null>(null)
+
+  const leftCustomPolicy =
+    leftReplacementPolicy === REPLACEMENT_POLICIES.CUSTOM
+      ? customPolicies.find((policy) => policy.id === leftCustomPolicyId)
+      : undefined
+  const rightCustomPolicy =
+    rightReplacementPolicy === REPLACEMENT_POLICIES.CUSTOM
+      ? customPolicies.find((policy) => policy.id === rightCustomPolicyId)
+      : undefined
 
   // References to child components
   const leftVisualizerRef = useRef<any>(null)
   const rightVisualizerRef = useRef<any>(null)
 
+  // Addresses submitted while both sides animate wait here, in order
+  const [queue, setQueue] = useState<QueuedAccess[]>([])
+  const queueIdRef = useRef(0)
+
+  const changeLeftMappingType = (type: MappingType) => {
+    setLeftMappingType(type)
+    setLeftReplacementPolicy((policy) => keepAvailable(policy, type, REPLACEMENT_POLICIES.FIFO))
+  }
+
+  const changeRightMappingType = (type: MappingType) => {
+    setRightMappingType(type)
+    setRightReplacementPolicy((policy) => keepAvailable(policy, type, REPLACEMENT_POLICIES.LRU))
+  }
+
+  // Both sides run each access together; the next starts once both have finished animating
+  useEffect(() => {
+    if (isAnimating || queue.length === 0) return
+    const [next, ...rest] = queue
+    setQueue(rest)
+    setIsAnimating(true)
+    Promise.all([
+      leftVisualizerRef.current?.processAddress(next.address, next.type),
+      rightVisualizerRef.current?.processAddress(next.address, next.type),
+    ]).finally(() => setIsAnimating(false))
+  }, [queue, isAnimating])
+
   const handleAddressSubmit = (e: React.FormEvent) => {
     e.preventDefault()
 
-    if (isAnimating) return // Prevent submitting during animation
-
     const address = Number.parseInt(addressInput)
 
-    if (isNaN(address) || address < 0 || address > 1048575) {
+    if (isNaN(address) || address < 0 || address > maxAddress(geometry.addressBits)) {
       toast({
         title: "Invalid address",
-        description: "Please enter a positive number up to 1048575 (20 bits)",
+        description: `Please enter a positive number up to ${maxAddress(geometry.addressBits)} (${geometry.addressBits} bits)`,
         variant: "destructive",
       })
       return
     }
 
-    // Set animating state to prevent multiple submissions
-    setIsAnimating(true)
-
-    // Process the address in both visualizers
-    if (leftVisualizerRef.current) {
-      leftVisualizerRef.current.processAddress(address)
-    }
-
-    if (rightVisualizerRef.current) {
-      rightVisualizerRef.current.processAddress(address)
-    }
-
-    // Clear the input
+    setQueue((prev) => [...prev, { id: queueIdRef.current++, address, type: accessType }])
     setAddressInput("")
-
-    // Reset animating state after animations complete
-    setTimeout(() => {
-      setIsAnimating(false)
-    }, 2500) // Allow enough time for both animations to complete
   }
 
   const resetCache = () => {
+    setQueue([])
+
     if (leftVisualizerRef.current) {
       leftVisualizerRef.current.resetCache()
     }
@@ -125,7 +177,7 @@ export function CacheComparison() {
               <div className="flex flex-wrap gap-2">
                 <Button
                   variant={leftMappingType === MAPPING_TYPES.DIRECT ? "default" : "outline"}
-                  onClick={() => setLeftMappingType(MAPPING_TYPES.DIRECT)}
+                  onClick={() => changeLeftMappingType(MAPPING_TYPES.DIRECT)}
                   className="flex-1"
                   disabled={isAnimating}
                 >
@@ -133,7 +185,7 @@ export function CacheComparison() {
                 </Button>
                 <Button
                   variant={leftMappingType === MAPPING_TYPES.FULLY_ASSOCIATIVE ? "default" : "outline"}
-                  onClick={() => setLeftMappingType(MAPPING_TYPES.FULLY_ASSOCIATIVE)}
+                  onClick={() => changeLeftMappingType(MAPPING_TYPES.FULLY_ASSOCIATIVE)}
                   className="flex-1"
                   disabled={isAnimating}
                 >
@@ -141,7 +193,7 @@ export function CacheComparison() {
                 </Button>
                 <Button
                   variant={leftMappingType === MAPPING_TYPES.SET_ASSOCIATIVE ? "default" : "outline"}
-                  onClick={() => setLeftMappingType(MAPPING_TYPES.SET_ASSOCIATIVE)}
+                  onClick={() => changeLeftMappingType(MAPPING_TYPES.SET_ASSOCIATIVE)}
                   className="flex-1"
                   disabled={isAnimating}
                 >
@@ -154,38 +206,35 @@ export function CacheComparison() {
             <div>
               <h4 className="text-md font-medium mb-2">Replacement Policy</h4>
               <div className="flex flex-wrap gap-2">
-                <Button
-                  variant={leftReplacementPolicy === REPLACEMENT_POLICIES.FIFO ? "default" : "outline"}
-                  onClick={() => setLeftReplacementPolicy(REPLACEMENT_POLICIES.FIFO)}
-                  className="flex-1"
-                  disabled={leftMappingType === MAPPING_TYPES.DIRECT || isAnimating}
-                >
-                  FIFO
-                </Button>
-                <Button
-                  variant={leftReplacementPolicy === REPLACEMENT_POLICIES.LRU ? "default" : "outline"}
-                  onClick={() => setLeftReplacementPolicy(REPLACEMENT_POLICIES.LRU)}
-                  className="flex-1"
-                  disabled={leftMappingType === MAPPING_TYPES.DIRECT || isAnimating}
-                >
-                  LRU
-                </Button>
-                <Button
-                  variant={leftReplacementPolicy === REPLACEMENT_POLICIES.LFU ? "default" : "outline"}
-                  onClick={() => setLeftReplacementPolicy(REPLACEMENT_POLICIES.LFU)}
-                  className="flex-1"
-                  disabled={leftMappingType === MAPPING_TYPES.DIRECT || isAnimating}
-                >
-                  LFU
-                </Button>
-                <Button
-                  variant={leftReplacementPolicy === REPLACEMENT_POLICIES.RANDOM ? "default" : "outline"}
-                  onClick={() => setLeftReplacementPolicy(REPLACEMENT_POLICIES.RANDOM)}
-                  className="flex-1"
-                  disabled={leftMappingType === MAPPING_TYPES.DIRECT || isAnimating}
-                >
-                  Random
-                </Button>
+                {COMPARABLE_POLICIES.map((policy) => (
+                  <Button
+                    key={policy}
+                    variant={leftReplacementPolicy === policy ? "default" : "outline"}
+                    onClick={() => setLeftReplacementPolicy(policy)}
+                    className="flex-1"
+                    disabled={
+                      leftMappingType === MAPPING_TYPES.DIRECT ||
+                      !isPolicyAvailable(policy, leftMappingType) ||
+                      isAnimating
+                    }
+                  >
+                    {REPLACEMENT_POLICY_LABELS[policy]}
+                  </Button>
+                ))}
+                {customPolicies.map((policy) => (
+                  <Button
+                    key={policy.id}
+                    variant={leftCustomPolicy?.id === policy.id ? "default" : "outline"}
+                    onClick={() => {
+                      setLeftReplacementPolicy(REPLACEMENT_POLICIES.CUSTOM)
+                      setLeftCustomPolicyId(policy.id)
+                    }}
+                    className="flex-1"
+                    disabled={leftMappingType === MAPPING_TYPES.DIRECT || isAnimating}
+                  >
+                    {policy.name}
+                  </Button>
+                ))}
               </div>
               {leftMappingType === MAPPING_TYPES.DIRECT && (
                 <p className="text-sm text-gray-500 mt-2">
@@ -193,6 +242,42 @@ export function CacheComparison() {
                 </p>
               )}
             </div>
+
+            {/* Write Policy Selection */}
+            <div>
+              <h4 className="text-md font-medium mb-2">Write Policy</h4>
+              <div className="flex flex-wrap gap-2">
+                {Object.values(WRITE_POLICIES).map((policy) => (
+                  <Button
+                    key={policy}
+                    variant={leftWritePolicy === policy ? "default" : "outline"}
+                    onClick={() => setLeftWritePolicy(policy)}
+                    className="flex-1"
+                    disabled={isAnimating}
+                  >
+                    {WRITE_POLICY_LABELS[policy]}
+                  </Button>
+                ))}
+              </div>
+            </div>
+
+            {/* Write Miss Policy Selection */}
+            <div>
+              <h4 className="text-md font-medium mb-2">Write Miss Policy</h4>
+              <div className="flex flex-wrap gap-2">
+                {Object.values(WRITE_MISS_POLICIES).map((policy) => (
+                  <Button
+                    key={policy}
+                    variant={leftWriteMissPolicy === policy ? "default" : "outline"}
+                    onClick={() => setLeftWriteMissPolicy(policy)}
+                    className="flex-1"
+                    disabled={isAnimating}
+                  >
+                    {WRITE_MISS_POLICY_LABELS[policy]}
+                  </Button>
+                ))}
+              </div>
+            </div>
           </div>
 
           {/* Right Side Controls */}
@@ -205,7 +290,7 @@ export function CacheComparison() {
               <div className="flex flex-wrap gap-2">
                 <Button
                   variant={rightMappingType === MAPPING_TYPES.DIRECT ? "default" : "outline"}
-                  onClick={() => setRightMappingType(MAPPING_TYPES.DIRECT)}
+                  onClick={() => changeRightMappingType(MAPPING_TYPES.DIRECT)}
                   className="flex-1"
                   disabled={isAnimating}
                 >
@@ -213,7 +298,7 @@ export function CacheComparison() {
                 </Button>
                 <Button
                   variant={rightMappingType === MAPPING_TYPES.FULLY_ASSOCIATIVE ? "default" : "outline"}
-                  onClick={() => setRightMappingType(MAPPING_TYPES.FULLY_ASSOCIATIVE)}
+                  onClick={() => changeRightMappingType(MAPPING_TYPES.FULLY_ASSOCIATIVE)}
                   className="flex-1"
                   disabled={isAnimating}
                 >
@@ -221,7 +306,7 @@ export function CacheComparison() {
                 </Button>
                 <Button
                   variant={rightMappingType === MAPPING_TYPES.SET_ASSOCIATIVE ? "default" : "outline"}
-                  onClick={() => setRightMappingType(MAPPING_TYPES.SET_ASSOCIATIVE)}
+                  onClick={() => changeRightMappingType(MAPPING_TYPES.SET_ASSOCIATIVE)}
                   className="flex-1"
                   disabled={isAnimating}
                 >
@@ -234,38 +319,35 @@ export function CacheComparison() {
             <div>
               <h4 className="text-md font-medium mb-2">Replacement Policy</h4>
               <div className="flex flex-wrap gap-2">
-                <Button
-                  variant={rightReplacementPolicy === REPLACEMENT_POLICIES.FIFO ? "default" : "outline"}
-                  onClick={() => setRightReplacementPolicy(REPLACEMENT_POLICIES.FIFO)}
-                  className="flex-1"
-                  disabled={rightMappingType === MAPPING_TYPES.DIRECT || isAnimating}
-                >
-                  FIFO
-                </Button>
-                <Button
-                  variant={rightReplacementPolicy === REPLACEMENT_POLICIES.LRU ? "default" : "outline"}
-                  onClick={() => setRightReplacementPolicy(REPLACEMENT_POLICIES.LRU)}
-                  className="flex-1"
-                  disabled={rightMappingType === MAPPING_TYPES.DIRECT || isAnimating}
-                >
-                  LRU
-                </Button>
-                <Button
-                  variant={rightReplacementPolicy === REPLACEMENT_POLICIES.LFU ? "default" : "outline"}
-                  onClick={() => setRightReplacementPolicy(REPLACEMENT_POLICIES.LFU)}
-                  className="flex-1"
-                  disabled={rightMappingType === MAPPING_TYPES.DIRECT || isAnimating}
-                >
-                  LFU
-                </Button>
-                <Button
-                  variant={rightReplacementPolicy === REPLACEMENT_POLICIES.RANDOM ? "default" : "outline"}
-                  onClick={() => setRightReplacementPolicy(REPLACEMENT_POLICIES.RANDOM)}
-                  className="flex-1"
-                  disabled={rightMappingType === MAPPING_TYPES.DIRECT || isAnimating}
-                >
-                  Random
-                </Button>
+                {COMPARABLE_POLICIES.map((policy) => (
+                  <Button
+                    key={policy}
+                    variant={rightReplacementPolicy === policy ? "default" : "outline"}
+                    onClick={() => setRightReplacementPolicy(policy)}
+                    className="flex-1"
+                    disabled={
+                      rightMappingType === MAPPING_TYPES.DIRECT ||
+                      !isPolicyAvailable(policy, rightMappingType) ||
+                      isAnimating
+                    }
+                  >
+                    {REPLACEMENT_POLICY_LABELS[policy]}
+                  </Button>
+                ))}
+                {customPolicies.map((policy) => (
+                  <Button
+                    key={policy.id}
+                    variant={rightCustomPolicy?.id === policy.id ? "default" : "outline"}
+                    onClick={() => {
+                      setRightReplacementPolicy(REPLACEMENT_POLICIES.CUSTOM)
+                      setRightCustomPolicyId(policy.id)
+                    }}
+                    className="flex-1"
+                    disabled={rightMappingType === MAPPING_TYPES.DIRECT || isAnimating}
+                  >
+                    {policy.name}
+                  </Button>
+                ))}
               </div>
               {rightMappingType === MAPPING_TYPES.DIRECT && (
                 <p className="text-sm text-gray-500 mt-2">
@@ -273,35 +355,103 @@ export function CacheComparison() {
                 </p>
               )}
             </div>
+
+            {/* Write Policy Selection */}
+            <div>
+              <h4 className="text-md font-medium mb-2">Write Policy</h4>
+              <div className="flex flex-wrap gap-2">
+                {Object.values(WRITE_POLICIES).map((policy) => (
+                  <Button
+                    key={policy}
+                    variant={rightWritePolicy === policy ? "default" : "outline"}
+                    onClick={() => setRightWritePolicy(policy)}
+                    className="flex-1"
+                    disabled={isAnimating}
+                  >
+                    {WRITE_POLICY_LABELS[policy]}
+                  </Button>
+                ))}
+              </div>
+            </div>
+
+            {/* Write Miss Policy Selection */}
+            <div>
+              <h4 className="text-md font-medium mb-2">Write Miss Policy</h4>
+              <div className="flex flex-wrap gap-2">
+                {Object.values(WRITE_MISS_POLICIES).map((policy) => (
+                  <Button
+                    key={policy}
+                    variant={rightWriteMissPolicy === policy ? "default" : "outline"}
+                    onClick={() => setRightWriteMissPolicy(policy)}
+                    className="flex-1"
+                    disabled={isAnimating}
+                  >
+                    {WRITE_MISS_POLICY_LABELS[policy]}
+                  </Button>
+                ))}
+              </div>
+            </div>
           </div>
         </div>
 
+        {/* Cache Geometry - Common for both sides */}
+        <div className="mt-6">
+          <h3 className="text-lg font-medium mb-2">Cache Geometry</h3>
+          <CacheConfigPanel geometry={geometry} onChange={setGeometry} disabled={isAnimating} />
+        </div>
+
+        {/* Random Seed - Common for both sides */}
+        <div className="mt-6">
+          <SeedControl seed={seed} onChange={setSeed} disabled={isAnimating} />
+        </div>
+
         {/* Address Input - Common for both sides */}
         <div className="mt-6">
           <form onSubmit={handleAddressSubmit} className="flex items-end gap-2">
+            <div>
+              <Label className="mb-2 block">Access</Label>
+              <div className="flex">
+                {Object.values(ACCESS_TYPES).map((type, i) => (
+                  <Button
+                    key={type}
+                    type="button"
+                    variant={accessType === type ? "default" : "outline"}
+                    onClick={() => setAccessType(type)}
+                    className={i === 0 ? "rounded-r-none" : "rounded-l-none"}
+                  >
+                    {ACCESS_TYPE_LABELS[type]}
+                  </Button>
+                ))}
+              </div>
+            </div>
             <div className="flex-1">
               <Label htmlFor="address" className="mb-2 block">
-                Memory Address (0 to 1048575)
+                Memory Address (0 to {maxAddress(geometry.addressBits)})
               </Label>
               <Input
                 id="address"
                 type="number"
                 min="0"
-                max="1048575"
+                max={maxAddress(geometry.addressBits)}
                 value={addressInput}
                 onChange={(e) => setAddressInput(e.target.value)}
                 placeholder="Enter address"
                 className="w-full"
-                disabled={isAnimating}
               />
             </div>
-            <Button type="submit" className="flex items-center gap-1" disabled={isAnimating}>
+            <Button type="submit" className="flex items-center gap-1">
               Add Address <ArrowRight className="h-4 w-4" />
             </Button>
-            <Button type="button" variant="outline" onClick={resetCache} disabled={isAnimating}>
+            <Button type="button" variant="outline" onClick={resetCache}>
               <RefreshCw className="h-4 w-4 mr-1" /> Reset
             </Button>
           </form>
+          <div className="mt-2">
+            <PendingQueue queue={queue} onClear={() => setQueue([])} />
+          </div>
+          <div className="mt-4 md:w-1/2">
+            <SpeedControl speed={speed} onChange={setSpeed} />
+          </div>
         </div>
       </div>
 
@@ -320,6 +470,12 @@ export function CacheComparison() {
             ref={leftVisualizerRef}
             mappingType={leftMappingType}
             replacementPolicy={leftReplacementPolicy}
+            customPolicy={leftCustomPolicy}
+            writePolicy={leftWritePolicy}
+            writeMissPolicy={leftWriteMissPolicy}
+            geometry={geometry}
+            seed={seed}
+            speed={speed}
             isComparisonMode={true}
           />
         </div>
@@ -337,6 +493,12 @@ export function CacheComparison() {
             ref={rightVisualizerRef}
             mappingType={rightMappingType}
             replacementPolicy={rightReplacementPolicy}
+            customPolicy={rightCustomPolicy}
+            writePolicy={rightWritePolicy}
+            writeMissPolicy={rightWriteMissPolicy}
+            geometry={geometry}
+            seed={seed}
+            speed={speed}
             isComparisonMode={true}
           />
         </div>
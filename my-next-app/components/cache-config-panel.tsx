@@ -0,0 +1,129 @@
+"use client"
+
+import type React from "react"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Check } from "lucide-react"
+import {
+  MAPPING_LABELS,
+  MAPPING_TYPES,
+  MAX_ADDRESS_BITS,
+  MAX_VISIBLE_BLOCKS,
+  deriveGeometry,
+  validateGeometry,
+  type CacheGeometry,
+  type MappingType,
+} from "@/lib/cache-engine"
+
+interface CacheConfigPanelProps {
+  geometry: CacheGeometry
+  onChange: (geometry: CacheGeometry) => void
+  disabled?: boolean
+  // Lower cache levels share L1's address space, so their width isn't editable
+  fixedAddressBits?: number
+}
+
+const FIELDS: Array<{ key: keyof CacheGeometry; label: string; hint: string }> = [
+  { key: "capacity", label: "Capacity (bytes)", hint: "Power of two" },
+  { key: "blockSize", label: "Block Size (bytes)", hint: "Power of two" },
+  { key: "associativity", label: "Associativity (ways)", hint: "Used by set-associative mapping" },
+  { key: "addressBits", label: "Address Width (bits)", hint: `1 to ${MAX_ADDRESS_BITS}` },
+]
+
+const MAPPING_ORDER: MappingType[] = [
+  MAPPING_TYPES.DIRECT,
+  MAPPING_TYPES.FULLY_ASSOCIATIVE,
+  MAPPING_TYPES.SET_ASSOCIATIVE,
+]
+
+const toDraft = (geometry: CacheGeometry) => ({
+  capacity: String(geometry.capacity),
+  blockSize: String(geometry.blockSize),
+  associativity: String(geometry.associativity),
+  addressBits: String(geometry.addressBits),
+})
+
+export function CacheConfigPanel({ geometry, onChange, disabled, fixedAddressBits }: CacheConfigPanelProps) {
+  const [draft, setDraft] = useState(toDraft(geometry))
+
+  // Keep the form in sync if the applied geometry changes elsewhere
+  useEffect(() => {
+    setDraft(toDraft(geometry))
+  }, [geometry])
+
+  const parsed: CacheGeometry = {
+    capacity: Number(draft.capacity),
+    blockSize: Number(draft.blockSize),
+    associativity: Number(draft.associativity),
+    addressBits: fixedAddressBits ?? Number(draft.addressBits),
+  }
+  const fields = fixedAddressBits === undefined ? FIELDS : FIELDS.filter(({ key }) => key !== "addressBits")
+  const errors = validateGeometry(parsed)
+  if (errors.length === 0 && parsed.capacity / parsed.blockSize > MAX_VISIBLE_BLOCKS) {
+    errors.push(`At most ${MAX_VISIBLE_BLOCKS} blocks can be visualized`)
+  }
+  const isDirty = FIELDS.some(({ key }) => parsed[key] !== geometry[key])
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (errors.length === 0 && isDirty) {
+      onChange(parsed)
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <div className={`grid grid-cols-2 ${fields.length === 4 ? "md:grid-cols-4" : "md:grid-cols-3"} gap-3`}>
+        {fields.map(({ key, label, hint }) => (
+          <div key={key}>
+            <Label htmlFor={`geometry-${key}`} className="mb-2 block">
+              {label}
+            </Label>
+            <Input
+              id={`geometry-${key}`}
+              type="number"
+              min="1"
+              value={draft[key]}
+              onChange={(e) => setDraft((prev) => ({ ...prev, [key]: e.target.value }))}
+              disabled={disabled}
+            />
+            <p className="text-xs text-muted-foreground mt-1">{hint}</p>
+          </div>
+        ))}
+      </div>
+
+      {errors.length > 0 ? (
+        <ul className="text-sm text-[#9d6b53] dark:text-red-300 list-disc pl-5">
+          {errors.map((error) => (
+            <li key={error}>{error}</li>
+          ))}
+        </ul>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-2 text-xs">
+          {MAPPING_ORDER.map((type) => {
+            const derived = deriveGeometry(parsed, type)
+            return (
+              <div
+                key={type}
+                className="rounded-md border border-[#e0d0c1] dark:border-gray-700 bg-[#f5e6d8] dark:bg-gray-900 p-2"
+              >
+                <div className="font-medium mb-1">{MAPPING_LABELS[type]}</div>
+                <div className="font-mono text-muted-foreground">
+                  {derived.numSets} sets × {derived.ways} ways · tag {derived.tagBits} / index {derived.indexBits} /
+                  offset {derived.offsetBits}
+                </div>
+              </div>
+            )
+          })}
+        </div>
+      )}
+
+      <Button type="submit" size="sm" disabled={disabled || errors.length > 0 || !isDirty}>
+        <Check className="h-4 w-4 mr-1" /> Apply Geometry
+      </Button>
+    </form>
+  )
+}
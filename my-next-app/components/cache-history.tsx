@@ -2,22 +2,24 @@
 
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
 import { Badge } from "@/components/ui/badge"
-
-interface HistoryEntry {
-  address: number
-  tag: number
-  index: number
-  offset: number
-  result: "hit" | "miss"
-  missType?: "compulsory" | "capacity" | "both"
-  timestamp: number
-}
+import type { HistoryEntry } from "@/hooks/use-cache-simulation"
+import { ACCESS_TYPES, ACCESS_TYPE_LABELS, type MissType, type TraceSource } from "@/lib/cache-engine"
 
 interface CacheHistoryProps {
   history: HistoryEntry[]
+  showServedBy?: boolean // Only meaningful with more than one cache level
+  onSourceClick?: (source: TraceSource) => void // Shows the expression in the loop-nest editor
 }
 
-export function CacheHistory({ history }: CacheHistoryProps) {
+const MISS_TYPE_LABELS: Array<{ type: MissType; label: string }> = [
+  { type: "compulsory", label: "Compulsory" },
+  { type: "capacity", label: "Capacity" },
+  { type: "conflict", label: "Conflict" },
+]
+
+const MAX_ROWS = 200 // A run to the end can leave thousands of entries
+
+export function CacheHistory({ history, showServedBy = false, onSourceClick }: CacheHistoryProps) {
   if (history.length === 0) {
     return (
       <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6">
@@ -27,25 +29,87 @@ export function CacheHistory({ history }: CacheHistoryProps) {
     )
   }
 
+  const misses = history.filter((entry) => entry.result === "miss")
+  // Writebacks show up here even with a single level
+  const showSideEffects = showServedBy || history.some((entry) => entry.sideEffects.length > 0)
+  const showEvicted = history.some((entry) => entry.evicted !== null)
+  const showSource = history.some((entry) => entry.source !== undefined)
+  const rows = history.slice(0, MAX_ROWS)
+
   return (
     <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6">
-      <h3 className="text-lg font-medium mb-4">Access History</h3>
+      <div className="flex flex-wrap items-baseline justify-between gap-2 mb-4">
+        <h3 className="text-lg font-medium">Access History</h3>
+        <div className="text-xs text-muted-foreground">
+          {MISS_TYPE_LABELS.map(({ type, label }) => {
+            const count = misses.filter((entry) => entry.missType === type).length
+            const share = misses.length > 0 ? (count / misses.length) * 100 : 0
+            return (
+              <span key={type} className="ml-3">
+                {label}: {count} ({share.toFixed(1)}%)
+              </span>
+            )
+          })}
+        </div>
+      </div>
       <div className="overflow-x-auto">
         <Table>
           <TableHeader>
             <TableRow>
               <TableHead className="w-[80px]">Address</TableHead>
+              <TableHead className="w-[70px]">Op</TableHead>
+              {showSource && <TableHead className="w-[120px]">Source</TableHead>}
+              <TableHead className="w-[80px]">Block</TableHead>
               <TableHead className="w-[80px]">Tag</TableHead>
               <TableHead className="w-[80px]">Index</TableHead>
               <TableHead className="w-[80px]">Offset</TableHead>
               <TableHead className="w-[100px]">Result</TableHead>
+              {showServedBy && <TableHead className="w-[80px]">Served By</TableHead>}
+              {showEvicted && <TableHead className="w-[140px]">Evicted</TableHead>}
+              {showSideEffects && <TableHead className="w-[180px]">Side Effects</TableHead>}
               <TableHead className="w-[120px]">Time</TableHead>
             </TableRow>
           </TableHeader>
           <TableBody>
-            {history.map((entry, i) => (
+            {rows.map((entry, i) => (
               <TableRow key={`history-${i}`}>
-                <TableCell className="font-mono">{entry.address}</TableCell>
+                <TableCell className="font-mono">
+                  {entry.address}
+                  {entry.position !== undefined && (
+                    <div className="text-xs text-muted-foreground">#{entry.position + 1}</div>
+                  )}
+                </TableCell>
+                <TableCell>
+                  <Badge
+                    variant="outline"
+                    className={
+                      entry.type === ACCESS_TYPES.WRITE
+                        ? "text-xs bg-[#fefae0] text-[#bc6c25] dark:bg-yellow-900 dark:text-yellow-200 border-[#faedcd] dark:border-yellow-800"
+                        : "text-xs bg-[#f5e6d8] text-[#7d5a50] dark:bg-gray-700 dark:text-gray-200 border-[#e0d0c1] dark:border-gray-600"
+                    }
+                  >
+                    {ACCESS_TYPE_LABELS[entry.type]}
+                  </Badge>
+                </TableCell>
+                {showSource && (
+                  <TableCell className="text-xs">
+                    {entry.source && (
+                      <button
+                        type="button"
+                        onClick={() => entry.source && onSourceClick?.(entry.source)}
+                        className="text-left hover:underline disabled:no-underline"
+                        disabled={!onSourceClick}
+                        title={`Line ${entry.source.line}: ${entry.source.expression}`}
+                      >
+                        <div className="font-mono">{entry.source.element}</div>
+                        <div className="text-muted-foreground">
+                          {entry.source.expression}, line {entry.source.line}
+                        </div>
+                      </button>
+                    )}
+                  </TableCell>
+                )}
+                <TableCell className="font-mono">{entry.blockAddress}</TableCell>
                 <TableCell className="font-mono">{entry.tag}</TableCell>
                 <TableCell className="font-mono">{entry.index}</TableCell>
                 <TableCell className="font-mono">{entry.offset}</TableCell>
@@ -81,25 +145,56 @@ export function CacheHistory({ history }: CacheHistoryProps) {
                           Capacity
                         </Badge>
                       )}
-                      {entry.missType === "both" && (
-                        <>
-                          <Badge
-                            variant="outline"
-                            className="text-xs bg-[#fefae0] text-[#bc6c25] dark:bg-yellow-900 dark:text-yellow-200 border-[#faedcd] dark:border-yellow-800"
-                          >
-                            Compulsory
-                          </Badge>
-                          <Badge
-                            variant="outline"
-                            className="text-xs bg-[#e0e4e8] text-[#4a5568] dark:bg-blue-900 dark:text-blue-200 border-[#cbd5e0] dark:border-blue-800"
-                          >
-                            Capacity
-                          </Badge>
-                        </>
+                      {entry.missType === "conflict" && (
+                        <Badge
+                          variant="outline"
+                          className="text-xs bg-[#eddcd2] text-[#6b4f4f] dark:bg-purple-900 dark:text-purple-200 border-[#ddbea9] dark:border-purple-800"
+                        >
+                          Conflict
+                        </Badge>
+                      )}
+                      {entry.type === ACCESS_TYPES.WRITE && (
+                        <Badge
+                          variant="outline"
+                          className="text-xs bg-[#f5e6d8] text-[#7d5a50] dark:bg-gray-700 dark:text-gray-200 border-[#e0d0c1] dark:border-gray-600"
+                          title={
+                            entry.filled ? "Write-allocate fetched the block" : "No-write-allocate wrote around L1"
+                          }
+                        >
+                          {entry.filled ? "Filled" : "No Fill"}
+                        </Badge>
                       )}
                     </div>
                   )}
                 </TableCell>
+                {showServedBy && <TableCell className="font-mono">{entry.servedBy}</TableCell>}
+                {showEvicted && (
+                  <TableCell className="text-xs">
+                    {entry.evicted !== null && <div className="font-mono">Block {entry.evicted}</div>}
+                    {entry.evictedNextUse !== undefined && (
+                      <div className="text-muted-foreground">
+                        {Number.isFinite(entry.evictedNextUse)
+                          ? `next use at access #${entry.evictedNextUse + 1}`
+                          : "not used again"}
+                      </div>
+                    )}
+                  </TableCell>
+                )}
+                {showSideEffects && (
+                  <TableCell>
+                    <div className="flex flex-col gap-1">
+                      {entry.sideEffects.map((effect) => (
+                        <Badge
+                          key={effect}
+                          variant="outline"
+                          className="text-xs bg-[#f5e6d8] text-[#7d5a50] dark:bg-gray-700 dark:text-gray-200 border-[#e0d0c1] dark:border-gray-600"
+                        >
+                          {effect}
+                        </Badge>
+                      ))}
+                    </div>
+                  </TableCell>
+                )}
                 <TableCell className="text-xs text-muted-foreground">
                   {new Date(entry.timestamp).toLocaleTimeString()}
                 </TableCell>
@@ -108,6 +203,11 @@ export function CacheHistory({ history }: CacheHistoryProps) {
           </TableBody>
         </Table>
       </div>
+      {history.length > rows.length && (
+        <p className="text-xs text-muted-foreground mt-2">
+          Showing the latest {rows.length} of {history.length} accesses
+        </p>
+      )}
     </div>
   )
 }
@@ -26,10 +26,12 @@ export function CacheInfoModal({ open, onClose }: CacheInfoModalProps) {
         </DialogHeader>
 
         <Tabs defaultValue="mapping">
-          <TabsList className="grid w-full grid-cols-3">
+          <TabsList className="grid w-full grid-cols-5">
             <TabsTrigger value="mapping">Cache Mapping</TabsTrigger>
             <TabsTrigger value="replacement">Replacement Policies</TabsTrigger>
             <TabsTrigger value="misses">Miss Types</TabsTrigger>
+            <TabsTrigger value="hierarchy">Hierarchy</TabsTrigger>
+            <TabsTrigger value="writes">Writes</TabsTrigger>
           </TabsList>
 
           <TabsContent value="mapping" className="space-y-4 mt-4">
@@ -40,6 +42,11 @@ export function CacheInfoModal({ open, onClose }: CacheInfoModalProps) {
                 determined by: <code>index = (address / block_size) % cache_size</code>. This is the simplest mapping
                 technique but can lead to many capacity misses when different addresses map to the same cache location.
               </p>
+              <p className="text-gray-700 dark:text-gray-300 mt-2">
+                Every byte in the same block shares one cache line. The low offset bits of an address pick the byte
+                inside the block, the index bits above them pick the set, and the remaining high bits are stored as the
+                tag so a lookup can tell which block currently occupies the line.
+              </p>
             </div>
 
             <div>
@@ -89,6 +96,29 @@ export function CacheInfoModal({ open, onClose }: CacheInfoModalProps) {
                 principle that frequently accessed blocks are more important to keep in the cache. LFU requires counting
                 the number of accesses for each block.
               </p>
+              <p className="text-gray-700 dark:text-gray-300 mt-2">
+                Several blocks often share the lowest count, so every LFU variant has a tie-break rule: evict the oldest
+                of them (earliest filled), the least recently used, or a random one.
+              </p>
+            </div>
+
+            <div>
+              <h3 className="text-lg font-semibold mb-2">LFU with Decay</h3>
+              <p className="text-gray-700 dark:text-gray-300">
+                Plain LFU counts grow forever, so a block that was popular long ago can sit in the cache after the
+                program has moved on. LFU with decay halves every count at a fixed interval, and the cache view counts
+                down to the next halving. Old popularity fades and new blocks can catch up.
+              </p>
+            </div>
+
+            <div>
+              <h3 className="text-lg font-semibold mb-2">LFU-DA (Dynamic Aging)</h3>
+              <p className="text-gray-700 dark:text-gray-300">
+                LFU-DA ranks blocks by a key instead of the raw count: the count plus the cache age L. Each eviction
+                raises L to the victim's key, and a block's key is recomputed with the current L whenever it is used.
+                Blocks that stop being used keep their old, low key, so they are eventually evicted even if their count
+                is high.
+              </p>
             </div>
 
             <div>
@@ -98,6 +128,163 @@ export function CacheInfoModal({ open, onClose }: CacheInfoModalProps) {
                 perform surprisingly well in practice and is very simple to implement. It doesn't require any tracking
                 of block usage.
               </p>
+              <p className="text-gray-700 dark:text-gray-300 mt-2">
+                The simulator's random numbers come from a generator seeded with the Random Seed, one per cache level,
+                so the same seed and the same accesses always pick the same victims. With a trace loaded, Run Over Seeds
+                replays it with many seeds and reports the mean and variance of the hit rate, showing how much of a
+                result is down to luck.
+              </p>
+            </div>
+
+            <div>
+              <h3 className="text-lg font-semibold mb-2">Tree-PLRU</h3>
+              <p className="text-gray-700 dark:text-gray-300">
+                True LRU needs to order every way of a set, which gets expensive in hardware. Tree pseudo-LRU keeps only
+                ways − 1 bits per set arranged as a binary tree. Each bit points to the half of the set that should be
+                evicted next; a hit or fill flips the bits on its path to point away from the used way, and the victim
+                is found by following the arrows from the root.
+              </p>
+            </div>
+
+            <div>
+              <h3 className="text-lg font-semibold mb-2">Bit-PLRU (MRU Bits)</h3>
+              <p className="text-gray-700 dark:text-gray-300">
+                Each way has one MRU bit that is set when the way is used. The victim is the first way whose bit is
+                clear. When setting a bit would leave every bit set, all the other bits are cleared so the recently used
+                way is the only one protected.
+              </p>
+            </div>
+
+            <div>
+              <h3 className="text-lg font-semibold mb-2">CLOCK (Second Chance)</h3>
+              <p className="text-gray-700 dark:text-gray-300">
+                Each way has a reference bit that is set whenever it is used, and each set has a hand that sweeps around
+                the ways like a clock. On a miss the hand inspects the way it points at: if the bit is set, the bit is
+                cleared and the way gets a second chance; if it is clear, that way is evicted. The hand then moves past
+                the new block. Unlike LRU, a block that was used once and one used a hundred times look the same.
+              </p>
+            </div>
+
+            <div>
+              <h3 className="text-lg font-semibold mb-2">NRU (Not Recently Used)</h3>
+              <p className="text-gray-700 dark:text-gray-300">
+                NRU also keeps a reference bit per way, but clears every bit at a fixed interval instead of on the way
+                to a victim. Lines are ranked by whether they were referenced since the last clearing and whether they
+                are dirty, and the first line in the lowest class is evicted, so clean, unreferenced lines go first.
+              </p>
+            </div>
+
+            <div>
+              <h3 className="text-lg font-semibold mb-2">SLRU (Segmented LRU)</h3>
+              <p className="text-gray-700 dark:text-gray-300">
+                New blocks enter a probationary segment and move to a protected segment when they are hit again. When
+                the protected segment is full its LRU block is demoted back to probation, and victims always come from
+                probation first. A scan of blocks used once can then only push out other newcomers, not the blocks that
+                have proven they are reused.
+              </p>
+            </div>
+
+            <div>
+              <h3 className="text-lg font-semibold mb-2">2Q</h3>
+              <p className="text-gray-700 dark:text-gray-300">
+                First-time blocks go into a small FIFO queue (A1in). Blocks leaving it are remembered by address only in
+                a ghost queue (A1out). A block that misses while it is still remembered was reused after all, so it is
+                admitted to the main LRU list (Am). Hits in A1in are ignored, and Am only loses blocks when A1in is
+                within its size.
+              </p>
+            </div>
+
+            <div>
+              <h3 className="text-lg font-semibold mb-2">ARC (Adaptive Replacement Cache)</h3>
+              <p className="text-gray-700 dark:text-gray-300">
+                ARC keeps blocks seen once recently in T1 and blocks seen at least twice in T2, plus ghost lists B1 and
+                B2 with the addresses each of them evicted. A miss that finds its block in B1 means T1 was too small, so
+                the target size p of T1 grows; a block found in B2 shrinks it. Victims come from T1 while it is above
+                its target and from T2 otherwise, so ARC tunes itself between recency and frequency.
+              </p>
+            </div>
+
+            <p className="text-sm text-muted-foreground">
+              SLRU, 2Q and ARC are available with fully associative mapping, where the cache view shows each list with
+              ghost entries drawn dashed.
+            </p>
+
+            <div>
+              <h3 className="text-lg font-semibold mb-2">SRRIP (Static Re-Reference Interval Prediction)</h3>
+              <p className="text-gray-700 dark:text-gray-300">
+                Each line stores a small re-reference prediction value (RRPV). 0 means the block should be reused soon
+                and the maximum means it probably won't be. Hits reset the RRPV to 0, and new blocks start one below the
+                maximum. The victim is a line at the maximum; if there is none, every line in the set ages by one until
+                one gets there. Blocks that are only touched once then leave before the ones being reused.
+              </p>
+            </div>
+
+            <div>
+              <h3 className="text-lg font-semibold mb-2">BRRIP (Bimodal RRIP)</h3>
+              <p className="text-gray-700 dark:text-gray-300">
+                BRRIP inserts most new blocks at the maximum RRPV, so a long scan only ever displaces itself. With a
+                small bimodal probability a block is inserted one below the maximum instead, which lets part of a
+                working set larger than the cache stay resident.
+              </p>
+            </div>
+
+            <div>
+              <h3 className="text-lg font-semibold mb-2">DRRIP (Dynamic RRIP)</h3>
+              <p className="text-gray-700 dark:text-gray-300">
+                DRRIP picks between SRRIP and BRRIP at run time with set dueling. A few leader sets always use SRRIP and
+                a few always use BRRIP. A saturating PSEL counter goes up on misses in the SRRIP leaders and down on
+                misses in the BRRIP leaders, and all other sets follow whichever policy PSEL currently favors. The cache
+                view labels the leader sets and shows PSEL above the sets.
+              </p>
+            </div>
+
+            <div>
+              <h3 className="text-lg font-semibold mb-2">LIP (LRU Insertion Policy)</h3>
+              <p className="text-gray-700 dark:text-gray-300">
+                LIP evicts like LRU but places new blocks in the LRU position instead of the MRU position. A block only
+                becomes safe once it is hit again, so when a loop touches more blocks than the cache holds, part of the
+                loop stays cached instead of every access missing as it does under LRU.
+              </p>
+            </div>
+
+            <div>
+              <h3 className="text-lg font-semibold mb-2">BIP (Bimodal Insertion Policy)</h3>
+              <p className="text-gray-700 dark:text-gray-300">
+                BIP behaves like LIP, but with a small bimodal probability a new block goes to the MRU position. That
+                lets the cache slowly adapt when the working set changes, which pure LIP never does.
+              </p>
+            </div>
+
+            <div>
+              <h3 className="text-lg font-semibold mb-2">DIP (Dynamic Insertion Policy)</h3>
+              <p className="text-gray-700 dark:text-gray-300">
+                DIP duels LRU against BIP the same way DRRIP duels its two policies: leader sets vote with their misses
+                on a PSEL counter and the other sets follow the winner. LRU wins on workloads that fit in the cache, BIP
+                wins on cyclic ones that thrash it. The statistics panel shows which policy is currently favored. Set
+                dueling needs at least two sets, so use set-associative mapping.
+              </p>
+            </div>
+
+            <div>
+              <h3 className="text-lg font-semibold mb-2">OPT (Belady's Optimal)</h3>
+              <p className="text-gray-700 dark:text-gray-300">
+                OPT evicts the block whose next use lies furthest in the future, or one that is never used again. No
+                other policy can miss less on the same trace, so OPT is the lower bound the others are judged against.
+                It needs the whole trace in advance, which real hardware never has. Load a trace to use it: each block
+                shows when it is next used, and every eviction notes the access it will be needed at again.
+              </p>
+            </div>
+
+            <div>
+              <h3 className="text-lg font-semibold mb-2">Custom Policies</h3>
+              <p className="text-gray-700 dark:text-gray-300">
+                New Policy opens an editor for writing your own policy in JavaScript. The code returns an object with a{" "}
+                <code>chooseVictim(ctx)</code> function that picks the way to evict from a full set, and optional{" "}
+                <code>onHit</code> and <code>onFill</code> hooks. Each line has a <code>meta</code> object for the
+                policy's own state, such as counters or flags, which is shown on the line. Policies run in a Web Worker
+                that can't reach the page, and one that takes longer than two seconds is stopped. Saved policies stay in
+                this browser and can be picked for any level and on the comparison page.
+              </p>
             </div>
           </TabsContent>
 
@@ -105,7 +292,7 @@ export function CacheInfoModal({ open, onClose }: CacheInfoModalProps) {
             <div>
               <h3 className="text-lg font-semibold mb-2">Compulsory Miss</h3>
               <p className="text-gray-700 dark:text-gray-300">
-                A compulsory miss occurs when an address is accessed for the first time and is not found in the cache.
+                A compulsory miss occurs when a block is accessed for the first time and is not found in the cache.
                 These misses are unavoidable as the first access to any address will always result in a miss. They are
                 also known as "cold start misses" because they happen when the cache is "cold" or empty.
               </p>
@@ -114,19 +301,95 @@ export function CacheInfoModal({ open, onClose }: CacheInfoModalProps) {
             <div>
               <h3 className="text-lg font-semibold mb-2">Capacity Miss</h3>
               <p className="text-gray-700 dark:text-gray-300">
-                A capacity miss occurs when the cache is full and a block needs to be replaced to make room for a new
-                address. This happens when the working set of the program is larger than the cache size. In this
-                simulation, a capacity miss is counted when a replacement occurs, regardless of whether the address has
-                been seen before.
+                A capacity miss occurs when the program's working set is larger than the cache. The block was used
+                before, but even a fully associative LRU cache with the same number of blocks would have evicted it by
+                now. The simulator detects this by replaying every access against such a "shadow" cache.
+              </p>
+            </div>
+
+            <div>
+              <h3 className="text-lg font-semibold mb-2">Conflict Miss</h3>
+              <p className="text-gray-700 dark:text-gray-300">
+                A conflict miss occurs when the block was evicted only because too many blocks map to the same set. The
+                fully associative shadow cache still holds it, so a cache with more ways (or a better replacement
+                choice) would have hit. Direct mapped caches are the most prone to conflict misses. A fully associative
+                cache has no sets to conflict in, so its misses are never counted as conflicts, even when its policy
+                evicted a block LRU would have kept.
+              </p>
+            </div>
+          </TabsContent>
+          <TabsContent value="hierarchy" className="space-y-4 mt-4">
+            <div>
+              <h3 className="text-lg font-semibold mb-2">Multi-Level Caches</h3>
+              <p className="text-gray-700 dark:text-gray-300">
+                Real processors place several caches between the CPU and main memory. An access checks L1 first and only
+                goes down to L2, L3 and finally memory when a level misses. The local miss rate of a level counts misses
+                against the accesses that reached it, while the global miss rate counts them against every access the
+                CPU issued.
+              </p>
+            </div>
+
+            <div>
+              <h3 className="text-lg font-semibold mb-2">Inclusive</h3>
+              <p className="text-gray-700 dark:text-gray-300">
+                Every block in an upper level is also present in the level below. When a lower level evicts a block it
+                must back-invalidate any copies above it, even if L1 was still using them. This makes coherence checks
+                cheap but wastes some capacity on duplicates.
+              </p>
+            </div>
+
+            <div>
+              <h3 className="text-lg font-semibold mb-2">Exclusive</h3>
+              <p className="text-gray-700 dark:text-gray-300">
+                A block lives in exactly one level. On an L1 miss that hits in L2, the block moves up to L1 and the L1
+                victim moves down to take its place, so the levels together hold more distinct blocks. Blocks fetched
+                from memory are placed only in L1.
+              </p>
+            </div>
+
+            <div>
+              <h3 className="text-lg font-semibold mb-2">Non-Inclusive Non-Exclusive (NINE)</h3>
+              <p className="text-gray-700 dark:text-gray-300">
+                Every level that misses keeps a copy of the block, but evictions in one level never touch the others.
+                Blocks may end up in several levels or in only one of them.
+              </p>
+            </div>
+          </TabsContent>
+
+          <TabsContent value="writes" className="space-y-4 mt-4">
+            <div>
+              <h3 className="text-lg font-semibold mb-2">Loads and Stores</h3>
+              <p className="text-gray-700 dark:text-gray-300">
+                A load only reads the block, so the cached copy stays identical to memory. A store changes the cached
+                copy, and the write policy decides when the level below learns about the change.
+              </p>
+            </div>
+
+            <div>
+              <h3 className="text-lg font-semibold mb-2">Write-Through</h3>
+              <p className="text-gray-700 dark:text-gray-300">
+                Every store is passed on to the next level immediately. Lines never become dirty and evictions are free,
+                but each store costs a write to the level below.
+              </p>
+            </div>
+
+            <div>
+              <h3 className="text-lg font-semibold mb-2">Write-Back</h3>
+              <p className="text-gray-700 dark:text-gray-300">
+                Stores only update the cache and set the line's dirty bit (shown as a D badge). When a dirty line is
+                evicted its data is written back to the level below. Repeated stores to the same block cost a single
+                writeback, which is why the Writebacks count is usually much smaller than the number of stores.
               </p>
             </div>
 
             <div>
-              <h3 className="text-lg font-semibold mb-2">Combined Misses</h3>
+              <h3 className="text-lg font-semibold mb-2">Write-Allocate vs No-Write-Allocate</h3>
               <p className="text-gray-700 dark:text-gray-300">
-                In some cases, a miss can be both a compulsory miss and a capacity miss. This happens when an address is
-                accessed for the first time (compulsory) and the cache is full, requiring a replacement (capacity). In
-                this simulation, we track both types separately for educational purposes.
+                When a store misses, a write-allocate cache first fetches the block and then writes into it, betting
+                that the program will touch the block again soon. A no-write-allocate cache writes around itself and
+                sends the store to the level below without filling a line. Each level of the hierarchy chooses on its
+                own. The Memory Traffic card counts bytes read from and written to main memory separately, so the
+                combinations can be compared on the same trace.
               </p>
             </div>
           </TabsContent>
@@ -0,0 +1,169 @@
+"use client"
+
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { CacheConfigPanel } from "@/components/cache-config-panel"
+import { ReplacementOptionsPanel } from "@/components/replacement-options-panel"
+import {
+  DEFAULT_REPLACEMENT_OPTIONS,
+  MAPPING_LABELS,
+  BUILT_IN_POLICIES,
+  MAPPING_TYPES,
+  REPLACEMENT_POLICIES,
+  REPLACEMENT_POLICY_LABELS,
+  WRITE_MISS_POLICY_LABELS,
+  WRITE_POLICY_LABELS,
+  isPolicyAvailable,
+  type CacheConfig,
+  type CustomPolicySource,
+  type MappingType,
+  type ReplacementPolicy,
+  type WriteMissPolicy,
+  type WritePolicy,
+} from "@/lib/cache-engine"
+
+interface CacheLevelConfigProps {
+  name: string
+  config: CacheConfig
+  onChange: (config: CacheConfig) => void
+  customPolicies?: CustomPolicySource[]
+  disabled?: boolean
+}
+
+// Custom policies share the select with built-ins, prefixed so ids can't clash
+const CUSTOM_PREFIX = "custom:"
+
+// Compact settings for one of the lower cache levels (L2, L3)
+export function CacheLevelConfig({ name, config, onChange, customPolicies = [], disabled }: CacheLevelConfigProps) {
+  const policyValue =
+    config.replacementPolicy === REPLACEMENT_POLICIES.CUSTOM
+      ? `${CUSTOM_PREFIX}${config.customPolicy?.id}`
+      : config.replacementPolicy
+
+  const handlePolicyChange = (value: string) => {
+    const customPolicy = customPolicies.find((policy) => `${CUSTOM_PREFIX}${policy.id}` === value)
+    onChange(
+      customPolicy
+        ? { ...config, replacementPolicy: REPLACEMENT_POLICIES.CUSTOM, customPolicy }
+        : { ...config, replacementPolicy: value as ReplacementPolicy, customPolicy: undefined },
+    )
+  }
+
+  // List policies are only offered fully associative, so other mappings drop them
+  const handleMappingChange = (mappingType: MappingType) => {
+    onChange(
+      isPolicyAvailable(config.replacementPolicy, mappingType)
+        ? { ...config, mappingType }
+        : { ...config, mappingType, replacementPolicy: REPLACEMENT_POLICIES.LRU },
+    )
+  }
+
+  return (
+    <div className="rounded-lg border border-[#e0d0c1] dark:border-gray-700 p-4 space-y-3">
+      <h4 className="text-md font-medium">{name} Cache</h4>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <div>
+          <Label className="mb-2 block">Mapping Type</Label>
+          <Select
+            value={config.mappingType}
+            onValueChange={(value) => handleMappingChange(value as MappingType)}
+            disabled={disabled}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(MAPPING_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div>
+          <Label className="mb-2 block">Replacement Policy</Label>
+          <Select
+            value={policyValue}
+            onValueChange={handlePolicyChange}
+            disabled={disabled || config.mappingType === MAPPING_TYPES.DIRECT}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {BUILT_IN_POLICIES.map((policy) => (
+                <SelectItem key={policy} value={policy} disabled={!isPolicyAvailable(policy, config.mappingType)}>
+                  {REPLACEMENT_POLICY_LABELS[policy]}
+                </SelectItem>
+              ))}
+              {customPolicies.map((policy) => (
+                <SelectItem key={policy.id} value={`${CUSTOM_PREFIX}${policy.id}`}>
+                  {policy.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div>
+          <Label className="mb-2 block">Write Policy</Label>
+          <Select
+            value={config.writePolicy}
+            onValueChange={(value) => onChange({ ...config, writePolicy: value as WritePolicy })}
+            disabled={disabled}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(WRITE_POLICY_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div>
+          <Label className="mb-2 block">Write Miss Policy</Label>
+          <Select
+            value={config.writeMissPolicy}
+            onValueChange={(value) => onChange({ ...config, writeMissPolicy: value as WriteMissPolicy })}
+            disabled={disabled}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(WRITE_MISS_POLICY_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {config.mappingType !== MAPPING_TYPES.DIRECT && (
+        <ReplacementOptionsPanel
+          policy={config.replacementPolicy}
+          options={{ ...DEFAULT_REPLACEMENT_OPTIONS, ...config.replacementOptions }}
+          onChange={(replacementOptions) => onChange({ ...config, replacementOptions })}
+          disabled={disabled}
+        />
+      )}
+
+      <CacheConfigPanel
+        geometry={config}
+        onChange={(geometry) => onChange({ ...config, ...geometry })}
+        disabled={disabled}
+        fixedAddressBits={config.addressBits}
+      />
+    </div>
+  )
+}
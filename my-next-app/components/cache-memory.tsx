@@ -3,33 +3,89 @@
 import type React from "react"
 
 import { motion } from "framer-motion"
-import { useEffect } from "react"
+import { useEffect, useRef } from "react"
+import {
+  REPLACEMENT_POLICY_LABELS,
+  REPLACEMENT_POLICIES,
+  RRIP_POLICIES,
+  blockByteRange,
+  maxRrpv,
+  rankLines,
+  type CacheLine,
+  type DuelSnapshot,
+  type PolicyListsSnapshot,
+  type ReplacementPolicy,
+} from "@/lib/cache-engine"
 
 interface CacheMemoryProps {
-  cache: Array<{ address: number | null; timestamp: number; frequency: number; tag: number | null }>
-  mappingType: string
-  setSize: number
-  animatingAddress: number | null
-  cacheBlockRefs: React.MutableRefObject<(HTMLDivElement | null)[]>
+  cache: CacheLine[]
+  numSets: number
+  ways: number
+  blockSize: number
+  animatingBlock: number | null
+  nextUses?: number[] // Trace position of each line's next access, shown for OPT
+  replacementPolicy?: ReplacementPolicy
+  policyBits?: number[][] // Pseudo-LRU or reference bits per set
+  clockHands?: number[] // Way each set's CLOCK hand points at
+  agingCountdown?: number | null // Accesses until NRU clears its bits or LFU halves its counts
+  policyLists?: Array<PolicyListsSnapshot | null> // SLRU, 2Q and ARC lists per set
+  rrpvBits?: number // RRPV width, shown per line for RRIP policies
+  duel?: DuelSnapshot | null // Leader sets and PSEL of a set-dueling policy
+  cacheBlockRefs?: React.MutableRefObject<(HTMLDivElement | null)[]>
 }
 
-export function CacheMemory({ cache, mappingType, setSize, animatingAddress, cacheBlockRefs }: CacheMemoryProps) {
+// Tailwind needs literal class names, so column counts are looked up rather than interpolated
+const SET_GRID_COLUMNS: Record<number, string> = {
+  1: "grid-cols-1",
+  2: "grid-cols-2",
+  4: "grid-cols-2 md:grid-cols-4",
+}
+
+export function CacheMemory({
+  cache,
+  numSets,
+  ways,
+  blockSize,
+  animatingBlock,
+  nextUses,
+  replacementPolicy,
+  policyBits,
+  clockHands,
+  agingCountdown,
+  policyLists,
+  rrpvBits,
+  duel,
+  cacheBlockRefs,
+}: CacheMemoryProps) {
   // Initialize refs array when cache size changes
   useEffect(() => {
-    cacheBlockRefs.current = cacheBlockRefs.current.slice(0, cache.length)
+    if (cacheBlockRefs) {
+      cacheBlockRefs.current = cacheBlockRefs.current.slice(0, cache.length)
+    }
   }, [cache.length, cacheBlockRefs])
 
-  // Render cache blocks in a 4x2 grid
+  // Age and recency of each line relative to the rest of its set
+  const ranks = Array.from({ length: numSets }).flatMap((_, i) => rankLines(cache.slice(i * ways, (i + 1) * ways)))
+
+  const showsRrpv = replacementPolicy !== undefined && RRIP_POLICIES.includes(replacementPolicy)
+  const distantRrpv = rrpvBits !== undefined ? maxRrpv(rrpvBits) : null
+
+  const isGroupedBySet = numSets > 1 && ways > 1
+  const isCompact = cache.length > 16
+
+  // Wide sets get fewer columns so their ways still fit side by side
+  const setColumns = ways <= 2 ? 4 : ways <= 4 ? 2 : 1
+  const wayColumns = Math.min(ways, 4)
+
   const renderCacheBlocks = () => {
-    if (mappingType === "set-associative") {
+    if (isGroupedBySet) {
       // For set-associative, we group by sets
-      const numSets = cache.length / setSize
       const sets = []
 
       for (let i = 0; i < numSets; i++) {
-        const setBlocks = cache.slice(i * setSize, (i + 1) * setSize)
+        const setBlocks = cache.slice(i * ways, (i + 1) * ways)
         const isSetContainingAnimatingAddress =
-          animatingAddress !== null && setBlocks.some((block) => block.address === animatingAddress)
+          animatingBlock !== null && setBlocks.some((block) => block.blockAddress === animatingBlock)
 
         sets.push(
           <div
@@ -39,9 +95,11 @@ export function CacheMemory({ cache, mappingType, setSize, animatingAddress, cac
             } border border-[#e0d0c1] dark:border-gray-700`}
           >
             <div className="text-xs font-medium mb-2 text-muted-foreground dark:text-gray-400 text-center">Set {i}</div>
-            <div className="space-y-2">
-              {Array.from({ length: setSize }).map((_, j) => {
-                const index = i * setSize + j
+            {renderDuelRole(i)}
+            {renderPolicyBits(i)}
+            <div className={`grid ${SET_GRID_COLUMNS[wayColumns] ?? "grid-cols-2 md:grid-cols-4"} gap-2`}>
+              {Array.from({ length: ways }).map((_, j) => {
+                const index = i * ways + j
                 return renderCacheBlock(index)
               })}
             </div>
@@ -60,19 +118,60 @@ export function CacheMemory({ cache, mappingType, setSize, animatingAddress, cac
     }
   }
 
+  const renderPolicyBits = (set: number) => {
+    const bits = policyBits?.[set]
+    if (!bits || bits.length === 0 || !replacementPolicy) return null
+
+    return <PolicyBits policy={replacementPolicy} bits={bits} hand={clockHands?.[set] ?? 0} />
+  }
+
+  const renderDuelRole = (set: number) => {
+    const role = duel?.roles[set]
+    if (!duel || !role) return null
+
+    const isLeader = role !== "follower"
+    const policy = role === "a" ? duel.policies[0] : role === "b" ? duel.policies[1] : duel.favored
+    return (
+      <div className="flex justify-center mb-2">
+        <span
+          className={`text-xs px-2 py-0.5 rounded ${
+            isLeader
+              ? "bg-[#d4a373] text-white dark:bg-[#5c4a3d]"
+              : "bg-white dark:bg-gray-700 text-[#7d5a50] dark:text-gray-300 border border-[#e0d0c1] dark:border-gray-600"
+          }`}
+          title={isLeader ? "Leader set: always uses this policy and votes with its misses" : "Follower set"}
+        >
+          {isLeader ? "Leader" : "Follows"} {REPLACEMENT_POLICY_LABELS[policy]}
+        </span>
+      </div>
+    )
+  }
+
+  // Name of the list a resident block is filed in
+  const listOf = (index: number) => {
+    const { blockAddress } = cache[index]
+    return policyLists?.[Math.floor(index / ways)]?.lists.find(
+      (list) => !list.ghost && blockAddress !== null && list.blocks.includes(blockAddress),
+    )?.name
+  }
+
   const renderCacheBlock = (index: number) => {
     const block = cache[index]
-    const isAnimating = animatingAddress !== null && block.address === animatingAddress
+    const list = listOf(index)
+    const isAnimating = animatingBlock !== null && block.blockAddress === animatingBlock
+    const range = block.blockAddress !== null ? blockByteRange(block.blockAddress, blockSize) : null
+    const rank = ranks[index]
 
     return (
       <motion.div
         key={`cache-${index}`}
-        ref={(el) => (cacheBlockRefs.current[index] = el)}
+        ref={(el) => {
+          if (cacheBlockRefs) cacheBlockRefs.current[index] = el
+        }}
         className={`
-          p-4 rounded-lg border-2 flex flex-col justify-between
-          ${block.address !== null ? "bg-white dark:bg-gray-800" : "bg-[#f5e6d8] dark:bg-gray-700"}
+          ${isCompact ? "p-2 min-h-[80px]" : "p-4 min-h-[120px]"} rounded-lg border-2 flex flex-col justify-between
+          ${block.valid ? "bg-white dark:bg-gray-800" : "bg-[#f5e6d8] dark:bg-gray-700"}
           ${isAnimating ? "border-primary" : "border-[#e0d0c1] dark:border-gray-600"}
-          min-h-[120px]
         `}
         animate={
           isAnimating
@@ -86,35 +185,287 @@ export function CacheMemory({ cache, mappingType, setSize, animatingAddress, cac
       >
         <div className="flex justify-between items-start">
           <span className="text-xs text-muted-foreground font-semibold">Index {index}</span>
-          {block.tag !== null && (
-            <span className="text-xs bg-[#e0d0c1] dark:bg-blue-900 text-[#7d5a50] dark:text-blue-200 px-2 py-0.5 rounded">
-              Tag: {block.tag}
-            </span>
-          )}
+          <div className="flex gap-1">
+            {list && (
+              <span
+                className="text-xs bg-[#fefae0] dark:bg-gray-700 text-[#7d5a50] dark:text-gray-200 px-1.5 py-0.5 rounded"
+                title="List the replacement policy has filed this block in"
+              >
+                {list}
+              </span>
+            )}
+            {block.dirty && (
+              <span
+                className="text-xs bg-[#fefae0] dark:bg-yellow-900 text-[#bc6c25] dark:text-yellow-200 px-1.5 py-0.5 rounded font-semibold"
+                title="Dirty: modified since it was filled, written back on eviction"
+              >
+                D
+              </span>
+            )}
+            {block.tag !== null && (
+              <span className="text-xs bg-[#e0d0c1] dark:bg-blue-900 text-[#7d5a50] dark:text-blue-200 px-2 py-0.5 rounded">
+                Tag: {block.tag}
+              </span>
+            )}
+          </div>
         </div>
 
         <div className="mt-2">
-          {block.address !== null ? (
-            <span className="font-mono font-bold text-lg">Addr: {block.address}</span>
+          {block.valid ? (
+            <span className={`font-mono font-bold ${isCompact ? "text-sm" : "text-lg"}`}>
+              Block {block.blockAddress}
+            </span>
           ) : (
-            <span className="text-muted-foreground text-lg">Empty</span>
+            <span className={`text-muted-foreground ${isCompact ? "text-sm" : "text-lg"}`}>Empty</span>
           )}
         </div>
 
         <div className="text-xs text-muted-foreground mt-2">
-          {block.address !== null && <div>Frequency: {block.frequency}</div>}
+          {range && (
+            <div className="font-mono">
+              Bytes {range.start}–{range.end}
+            </div>
+          )}
+          {block.valid && <div>Frequency: {block.frequency}</div>}
+          {block.valid && replacementPolicy === REPLACEMENT_POLICIES.LFU_DA && (
+            <div title="Frequency plus the cache age, which rises to each victim's key">LFU key: {block.lfuKey}</div>
+          )}
+          {block.valid && Object.keys(block.meta).length > 0 && (
+            <div className="font-mono break-all" title="State the custom policy keeps for this line">
+              {Object.entries(block.meta)
+                .map(([key, value]) => `${key}: ${JSON.stringify(value)}`)
+                .join(", ")}
+            </div>
+          )}
+          {block.valid && showsRrpv && (
+            <div
+              className={block.rrpv === distantRrpv ? "text-[#bc6c25] dark:text-yellow-200 font-semibold" : undefined}
+              title="Re-reference prediction: 0 means reused soon, the maximum means evicted next"
+            >
+              RRPV: {block.rrpv}
+              {distantRrpv !== null && ` / ${distantRrpv}`}
+            </div>
+          )}
+          {block.valid && nextUses && (
+            <div title="When the loaded trace touches this block again">
+              {Number.isFinite(nextUses[index]) ? `Next use at access #${nextUses[index] + 1}` : "Not used again"}
+            </div>
+          )}
+          {rank && ways > 1 && (
+            <div title="0 is the newest fill (age) and the most recent use (recency)">
+              Age #{rank.age} · Recency #{rank.recency}
+            </div>
+          )}
         </div>
       </motion.div>
     )
   }
 
   return (
-    <div className="bg-[#f5e6d8] dark:bg-gray-900 p-4 rounded-lg shadow-inner">
-      <div
-        className={`grid ${mappingType === "set-associative" ? "grid-cols-2 md:grid-cols-4" : "grid-cols-2 md:grid-cols-4"} gap-3`}
-      >
+    <div className="bg-[#f5e6d8] dark:bg-gray-900 p-4 rounded-lg shadow-inner max-h-[720px] overflow-y-auto">
+      {duel && <DuelCounter duel={duel} />}
+      {agingCountdown !== undefined && agingCountdown !== null && (
+        <div className="mb-3 text-xs text-center text-muted-foreground">
+          {replacementPolicy === REPLACEMENT_POLICIES.LFU_DECAY ? "Frequencies halve" : "Reference bits clear"}{" "}
+          {agingCountdown === 0
+            ? "before the next access"
+            : `after ${agingCountdown} more access${agingCountdown === 1 ? "" : "es"}`}
+        </div>
+      )}
+      {!isGroupedBySet && numSets === 1 && <div className="mb-3">{renderPolicyBits(0)}</div>}
+      {numSets === 1 && policyLists?.[0] && <PolicyLists snapshot={policyLists[0]} cache={cache} />}
+      <div className={`grid ${isGroupedBySet ? SET_GRID_COLUMNS[setColumns] : "grid-cols-2 md:grid-cols-4"} gap-3`}>
         {renderCacheBlocks()}
       </div>
     </div>
   )
 }
+
+// A flipped bit re-mounts under a new key, so it animates in whenever a hit or fill changes it
+function PolicyBit({ bit, label, title }: { bit: number; label: string; title: string }) {
+  return (
+    <motion.span
+      className={`inline-flex items-center justify-center min-w-[1.5rem] h-6 px-1 rounded font-mono text-xs border ${
+        bit === 1
+          ? "bg-[#d4a373] text-white border-[#bc6c25]"
+          : "bg-white dark:bg-gray-800 text-[#7d5a50] dark:text-gray-300 border-[#e0d0c1] dark:border-gray-600"
+      }`}
+      initial={{ rotateX: 90, scale: 1.2 }}
+      animate={{ rotateX: 0, scale: 1 }}
+      transition={{ duration: 0.4 }}
+      title={title}
+    >
+      {label}
+    </motion.span>
+  )
+}
+
+function PolicyBits({ policy, bits, hand }: { policy: ReplacementPolicy; bits: number[]; hand: number }) {
+  if (policy === REPLACEMENT_POLICIES.CLOCK && bits.length <= MAX_CLOCK_FACE_WAYS) {
+    return <ClockFace bits={bits} hand={hand} />
+  }
+
+  if (policy !== REPLACEMENT_POLICIES.TREE_PLRU) {
+    const name = policy === REPLACEMENT_POLICIES.BIT_PLRU ? "MRU" : "Reference"
+    const isClock = policy === REPLACEMENT_POLICIES.CLOCK
+    return (
+      <div className="flex flex-wrap justify-center gap-1 mb-2" aria-label={`${name} bits`}>
+        {bits.map((bit, way) => (
+          <PolicyBit
+            key={`ref-${way}-${bit}`}
+            bit={bit}
+            label={isClock && way === hand ? `▸${way}:${bit}` : `${way}:${bit}`}
+            title={`Way ${way} ${name.toLowerCase()} bit ${bit === 1 ? "set, recently used" : "clear, eviction candidate"}`}
+          />
+        ))}
+      </div>
+    )
+  }
+
+  // One row per tree level, root first. Arrows show which half gets evicted next.
+  const depth = Math.log2(bits.length + 1)
+  return (
+    <div className="flex flex-col items-center gap-1 mb-2" aria-label="Tree-PLRU bits">
+      {Array.from({ length: depth }, (_, level) => {
+        const first = 2 ** level - 1
+        return (
+          <div key={level} className="flex flex-wrap justify-center gap-1">
+            {bits.slice(first, 2 * first + 1).map((bit, i) => (
+              <PolicyBit
+                key={`tree-${first + i}-${bit}`}
+                bit={bit}
+                label={bit === 1 ? "→" : "←"}
+                title={`Node ${first + i}: evict from the ${bit === 1 ? "right" : "left"} half next`}
+              />
+            ))}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
+
+// PSEL drifts towards whichever policy's leader sets miss less
+function DuelCounter({ duel }: { duel: DuelSnapshot }) {
+  const [a, b] = duel.policies
+  return (
+    <div className="mb-3 rounded-md border border-[#e0d0c1] dark:border-gray-700 bg-white dark:bg-gray-800 p-2 text-xs">
+      <div className="flex justify-between mb-1">
+        <span>{REPLACEMENT_POLICY_LABELS[a]}</span>
+        <span className="font-mono" title="Misses in A leaders count up, misses in B leaders count down">
+          PSEL {duel.psel} / {duel.pselMax}
+        </span>
+        <span>{REPLACEMENT_POLICY_LABELS[b]}</span>
+      </div>
+      <div className="h-2 rounded bg-[#e0d0c1] dark:bg-gray-700 overflow-hidden">
+        <motion.div
+          className="h-full bg-[#d4a373]"
+          animate={{ width: `${(duel.psel / duel.pselMax) * 100}%` }}
+          transition={{ duration: 0.4 }}
+        />
+      </div>
+      <div className="text-muted-foreground mt-1 text-center">
+        Followers use {REPLACEMENT_POLICY_LABELS[duel.favored]}
+      </div>
+    </div>
+  )
+}
+
+// Larger sets fall back to a row of bits with the hand marked
+const MAX_CLOCK_FACE_WAYS = 16
+
+// Ways sit around a dial and the hand turns clockwise to the next way it will inspect
+function ClockFace({ bits, hand }: { bits: number[]; hand: number }) {
+  const radius = bits.length > 8 ? 64 : 40
+
+  // Accumulate the angle so the hand keeps turning forward when it wraps past way 0
+  const turn = useRef({ hand, angle: (hand / bits.length) * 360 })
+  if (turn.current.hand !== hand) {
+    const steps = (hand - turn.current.hand + bits.length) % bits.length
+    turn.current = { hand, angle: turn.current.angle + (steps / bits.length) * 360 }
+  }
+
+  return (
+    <div
+      className="relative mx-auto mb-2"
+      style={{ width: 2 * radius + 32, height: 2 * radius + 32 }}
+      aria-label="CLOCK reference bits"
+    >
+      <div className="absolute inset-4 rounded-full border border-dashed border-[#e0d0c1] dark:border-gray-600" />
+      <motion.div
+        className="absolute left-1/2 top-1/2 w-0.5 -ml-px bg-[#bc6c25] origin-bottom rounded"
+        style={{ height: radius - 16, marginTop: -(radius - 16) }}
+        animate={{ rotate: turn.current.angle }}
+        transition={{ duration: 0.4 }}
+        title={`Hand at way ${hand}`}
+      />
+      {bits.map((bit, way) => {
+        const angle = (way / bits.length) * 2 * Math.PI
+        return (
+          <div
+            key={way}
+            className="absolute -translate-x-1/2 -translate-y-1/2"
+            style={{
+              left: `calc(50% + ${radius * Math.sin(angle)}px)`,
+              top: `calc(50% - ${radius * Math.cos(angle)}px)`,
+            }}
+          >
+            <PolicyBit
+              key={`clock-${way}-${bit}`}
+              bit={bit}
+              label={`${way}:${bit}`}
+              title={`Way ${way} reference bit ${bit === 1 ? "set, gets a second chance" : "clear, evicted when the hand reaches it"}`}
+            />
+          </div>
+        )
+      })}
+    </div>
+  )
+}
+
+// Each list as a row of blocks, LRU end on the left. Ghost entries only remember an address.
+function PolicyLists({ snapshot, cache }: { snapshot: PolicyListsSnapshot; cache: CacheLine[] }) {
+  return (
+    <div className="mb-3 rounded-md border border-[#e0d0c1] dark:border-gray-700 bg-white dark:bg-gray-800 p-2 space-y-2 text-xs">
+      {snapshot.target !== undefined && (
+        <div className="text-muted-foreground" title="ARC grows this on B1 ghost hits and shrinks it on B2 ghost hits">
+          Target size of T1 (p): <span className="font-mono">{snapshot.target}</span>
+        </div>
+      )}
+      {snapshot.lists.map((list) => (
+        <div key={list.name} className="flex items-start gap-2">
+          <div className="w-24 shrink-0 font-medium">
+            {list.name}
+            {list.ghost && <span className="text-muted-foreground font-normal"> (ghost)</span>}
+            <div className="text-muted-foreground font-normal">
+              {list.blocks.length}
+              {list.capacity !== undefined && ` / ${list.capacity}`}
+            </div>
+          </div>
+          <div className="flex flex-wrap gap-1 min-h-6">
+            {list.blocks.length === 0 && <span className="text-muted-foreground italic">empty</span>}
+            {list.blocks.map((blockAddress) => {
+              const index = cache.findIndex((line) => line.blockAddress === blockAddress)
+              return (
+                <motion.span
+                  key={`${list.name}-${blockAddress}`}
+                  layout
+                  className={`px-1.5 py-0.5 rounded font-mono border ${
+                    list.ghost
+                      ? "border-dashed border-[#e0d0c1] dark:border-gray-600 text-muted-foreground"
+                      : "bg-[#f5e6d8] dark:bg-gray-700 border-[#e0d0c1] dark:border-gray-600"
+                  }`}
+                  initial={{ opacity: 0, scale: 0.8 }}
+                  animate={{ opacity: 1, scale: 1 }}
+                  title={list.ghost ? "Evicted, only the address is remembered" : `Held at index ${index}`}
+                >
+                  {blockAddress}
+                </motion.span>
+              )
+            })}
+          </div>
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -1,67 +1,199 @@
 "use client"
 
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
-import { CheckCircle2, XCircle, Database, BarChart3 } from "lucide-react"
+import { CheckCircle2, XCircle, Database, BarChart3, Shuffle, HardDriveDownload, Scale } from "lucide-react"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import {
+  LEVEL_NAMES,
+  REPLACEMENT_POLICY_LABELS,
+  type CacheStatsSnapshot,
+  type DuelSnapshot,
+  type MemoryTrafficSnapshot,
+} from "@/lib/cache-engine"
 
 interface CacheStatsProps {
-  stats: {
-    hits: number
-    compulsoryMisses: number
-    capacityMisses: number
-  }
+  stats: CacheStatsSnapshot
+  // Per-level counters, L1 first. The breakdown table is shown for two or more levels.
+  levelStats?: CacheStatsSnapshot[]
+  traffic?: MemoryTrafficSnapshot
+  duels?: Array<DuelSnapshot | null> // Per level, null where the policy doesn't duel
 }
 
-export function CacheStats({ stats }: CacheStatsProps) {
-  // Calculate total accesses - count "both" type misses only once
-  const totalAccesses = stats.hits + stats.compulsoryMisses
+const missCount = (stats: CacheStatsSnapshot) => stats.compulsoryMisses + stats.capacityMisses + stats.conflictMisses
+
+const formatRate = (count: number, total: number) => (total > 0 ? `${((count / total) * 100).toFixed(1)}%` : "—")
+
+export function CacheStats({ stats, levelStats = [], traffic, duels = [] }: CacheStatsProps) {
+  const totalMisses = missCount(stats)
+  const totalAccesses = stats.hits + totalMisses
   const hitRate = totalAccesses > 0 ? (stats.hits / totalAccesses) * 100 : 0
-  const missRate = 100 - hitRate
+
+  // Share of all misses, so the three categories add up to 100%
+  const missShare = (count: number) => (totalMisses > 0 ? ((count / totalMisses) * 100).toFixed(1) : "0.0")
 
   return (
-    <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-3">
-      <Card className="shadow-sm">
-        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-1">
-          <CardTitle className="text-sm font-medium">Cache Hit Rate</CardTitle>
-          <BarChart3 className="h-4 w-4 text-[#606c38]" />
-        </CardHeader>
-        <CardContent>
-          <div className="text-xl font-bold">{hitRate.toFixed(1)}%</div>
-          <div className="text-xs text-muted-foreground">{totalAccesses} total accesses</div>
-        </CardContent>
-      </Card>
-
-      <Card className="shadow-sm">
-        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-1">
-          <CardTitle className="text-sm font-medium">Cache Hits</CardTitle>
-          <CheckCircle2 className="h-4 w-4 text-[#606c38]" />
-        </CardHeader>
-        <CardContent>
-          <div className="text-xl font-bold">{stats.hits}</div>
-          <div className="text-xs text-muted-foreground">Address found in cache</div>
-        </CardContent>
-      </Card>
-
-      <Card className="shadow-sm">
-        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-1">
-          <CardTitle className="text-sm font-medium">Compulsory Misses</CardTitle>
-          <XCircle className="h-4 w-4 text-[#9d6b53]" />
-        </CardHeader>
-        <CardContent>
-          <div className="text-xl font-bold">{stats.compulsoryMisses}</div>
-          <div className="text-xs text-muted-foreground">First time accessing address</div>
-        </CardContent>
-      </Card>
-
-      <Card className="shadow-sm">
-        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-1">
-          <CardTitle className="text-sm font-medium">Capacity Misses</CardTitle>
-          <Database className="h-4 w-4 text-[#4a5568]" />
-        </CardHeader>
-        <CardContent>
-          <div className="text-xl font-bold">{stats.capacityMisses}</div>
-          <div className="text-xs text-muted-foreground">Cache full, replacement needed</div>
-        </CardContent>
-      </Card>
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-3">
+        <Card className="shadow-sm">
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-1">
+            <CardTitle className="text-sm font-medium">Cache Hit Rate</CardTitle>
+            <BarChart3 className="h-4 w-4 text-[#606c38]" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-xl font-bold">{hitRate.toFixed(1)}%</div>
+            <div className="text-xs text-muted-foreground">{totalAccesses} total accesses</div>
+          </CardContent>
+        </Card>
+
+        <Card className="shadow-sm">
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-1">
+            <CardTitle className="text-sm font-medium">Cache Hits</CardTitle>
+            <CheckCircle2 className="h-4 w-4 text-[#606c38]" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-xl font-bold">{stats.hits}</div>
+            <div className="text-xs text-muted-foreground">Block found in cache</div>
+          </CardContent>
+        </Card>
+
+        <Card className="shadow-sm">
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-1">
+            <CardTitle className="text-sm font-medium">Compulsory Misses</CardTitle>
+            <XCircle className="h-4 w-4 text-[#9d6b53]" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-xl font-bold">{stats.compulsoryMisses}</div>
+            <div className="text-xs text-muted-foreground">
+              {missShare(stats.compulsoryMisses)}% of misses · first access to block
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card className="shadow-sm">
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-1">
+            <CardTitle className="text-sm font-medium">Capacity Misses</CardTitle>
+            <Database className="h-4 w-4 text-[#4a5568]" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-xl font-bold">{stats.capacityMisses}</div>
+            <div className="text-xs text-muted-foreground">
+              {missShare(stats.capacityMisses)}% of misses · working set too large
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card className="shadow-sm">
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-1">
+            <CardTitle className="text-sm font-medium">Conflict Misses</CardTitle>
+            <Shuffle className="h-4 w-4 text-[#6b4f4f]" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-xl font-bold">{stats.conflictMisses}</div>
+            <div className="text-xs text-muted-foreground">
+              {missShare(stats.conflictMisses)}% of misses · fully associative would hit
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card className="shadow-sm">
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-1">
+            <CardTitle className="text-sm font-medium">Writebacks</CardTitle>
+            <HardDriveDownload className="h-4 w-4 text-[#bc6c25]" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-xl font-bold">{stats.writebacks}</div>
+            <div className="text-xs text-muted-foreground">Dirty blocks evicted</div>
+          </CardContent>
+        </Card>
+      </div>
+
+      {traffic && (
+        <Card className="shadow-sm">
+          <CardHeader className="pb-1">
+            <CardTitle className="text-sm font-medium">Memory Traffic</CardTitle>
+          </CardHeader>
+          <CardContent className="grid grid-cols-2 gap-3">
+            <div>
+              <div className="text-xl font-bold">{traffic.bytesRead} B</div>
+              <div className="text-xs text-muted-foreground">Read · {traffic.reads} block fetches</div>
+            </div>
+            <div>
+              <div className="text-xl font-bold">{traffic.bytesWritten} B</div>
+              <div className="text-xs text-muted-foreground">Written · {traffic.writes} block writes</div>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {duels.some((duel) => duel) && (
+        <Card className="shadow-sm">
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-1">
+            <CardTitle className="text-sm font-medium">Set Dueling</CardTitle>
+            <Scale className="h-4 w-4 text-[#bc6c25]" />
+          </CardHeader>
+          <CardContent className="space-y-1">
+            {duels.map((duel, i) => {
+              if (!duel) return null
+
+              const [a, b] = duel.policies
+              const leaders = duel.roles.filter((role) => role !== "follower").length
+              return (
+                <div key={LEVEL_NAMES[i]}>
+                  <div className="text-xl font-bold">
+                    {duels.length > 1 && `${LEVEL_NAMES[i]}: `}
+                    {REPLACEMENT_POLICY_LABELS[duel.favored]} favored
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    {leaders > 0
+                      ? `${REPLACEMENT_POLICY_LABELS[a]} vs ${REPLACEMENT_POLICY_LABELS[b]} · PSEL ${duel.psel} of ${duel.pselMax}`
+                      : "Needs at least two sets to duel, every set uses the first policy"}
+                  </div>
+                </div>
+              )
+            })}
+          </CardContent>
+        </Card>
+      )}
+
+      {levelStats.length > 1 && (
+        <Card className="shadow-sm">
+          <CardHeader className="pb-1">
+            <CardTitle className="text-sm font-medium">Hierarchy Breakdown</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Level</TableHead>
+                  <TableHead>Accesses</TableHead>
+                  <TableHead>Hits</TableHead>
+                  <TableHead>Hit Rate</TableHead>
+                  <TableHead title="Misses divided by the accesses that reached this level">Local Miss Rate</TableHead>
+                  <TableHead title="Misses divided by all accesses issued to L1">Global Miss Rate</TableHead>
+                  <TableHead>Writebacks</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {levelStats.map((level, i) => {
+                  const misses = missCount(level)
+                  const accesses = level.hits + misses
+                  return (
+                    <TableRow key={LEVEL_NAMES[i]}>
+                      <TableCell className="font-mono">{LEVEL_NAMES[i]}</TableCell>
+                      <TableCell className="font-mono">{accesses}</TableCell>
+                      <TableCell className="font-mono">{level.hits}</TableCell>
+                      <TableCell className="font-mono">{formatRate(level.hits, accesses)}</TableCell>
+                      <TableCell className="font-mono">{formatRate(misses, accesses)}</TableCell>
+                      <TableCell className="font-mono">{formatRate(misses, totalAccesses)}</TableCell>
+                      <TableCell className="font-mono">{level.writebacks}</TableCell>
+                    </TableRow>
+                  )
+                })}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
     </div>
   )
 }
@@ -2,7 +2,7 @@
 
 import type React from "react"
 
-import { useState, useEffect, useRef } from "react"
+import { useState, useRef } from "react"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
@@ -12,515 +12,275 @@ import { MainMemory } from "@/components/main-memory"
 import { CacheStats } from "@/components/cache-stats"
 import { CacheHistory } from "@/components/cache-history"
 import { useToast } from "@/hooks/use-toast"
-import { ArrowRight, RefreshCw, HelpCircle, Split } from "lucide-react"
+import { useCacheSimulation } from "@/hooks/use-cache-simulation"
+import { readStoredPolicies, useCustomPolicies } from "@/hooks/use-custom-policies"
+import { useSavedSession } from "@/hooks/use-saved-session"
+import { ArrowRight, RefreshCw, HelpCircle, Split, ListOrdered, Plus, Pencil } from "lucide-react"
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip"
 import { CacheInfoModal } from "@/components/cache-info-modal"
 import Link from "next/link"
-
-// Cache mapping types
-const MAPPING_TYPES = {
-  DIRECT: "direct",
-  FULLY_ASSOCIATIVE: "fully-associative",
-  SET_ASSOCIATIVE: "set-associative",
-}
-
-// Replacement policies
-const REPLACEMENT_POLICIES = {
-  FIFO: "fifo",
-  LRU: "lru",
-  LFU: "lfu",
-  RANDOM: "random",
-}
-
-// Miss types
-const MISS_TYPES = {
-  COMPULSORY: "compulsory",
-  CAPACITY: "capacity",
-}
-
-// Cache configuration
-const CACHE_SIZE = 8 // Number of cache blocks
-const MAIN_MEMORY_SIZE = 32 // Number of main memory blocks
-const SET_SIZE = 2 // Number of blocks per set for set-associative mapping
-const ADDRESS_BITS = 20 // Number of bits in the address (up to 1048575)
-const BLOCK_SIZE = 32 // Cache block size in bytes
-const OFFSET_BITS = 5 // log2(32) = 5 bits for offset
-
-// History entry type
-interface HistoryEntry {
-  address: number
-  tag: number
-  index: number
-  offset: number
-  result: "hit" | "miss"
-  missType?: "compulsory" | "capacity" | "both"
-  timestamp: number
-}
+import { CacheConfigPanel } from "@/components/cache-config-panel"
+import { CacheLevelConfig } from "@/components/cache-level-config"
+import { ReplacementOptionsPanel } from "@/components/replacement-options-panel"
+import { AccessCascade } from "@/components/access-cascade"
+import { CustomPolicyEditor } from "@/components/custom-policy-editor"
+import { SeedControl } from "@/components/seed-control"
+import { SeedSweepPanel } from "@/components/seed-sweep"
+import { TraceImport } from "@/components/trace-import"
+import { TraceGenerator } from "@/components/trace-generator"
+import { LoopNestEditor } from "@/components/loop-nest-editor"
+import { PlaybackControls } from "@/components/playback-controls"
+import { PendingQueue } from "@/components/pending-queue"
+import { SpeedControl } from "@/components/speed-control"
+import { BatchRun } from "@/components/batch-run"
+import { BackgroundRunPanel } from "@/components/background-run"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import {
+  ACCESS_TYPES,
+  ACCESS_TYPE_LABELS,
+  BUILT_IN_POLICIES,
+  DEFAULT_GEOMETRY,
+  DEFAULT_LOWER_LEVELS,
+  DEFAULT_REPLACEMENT_OPTIONS,
+  DEFAULT_SEED,
+  INCLUSION_POLICIES,
+  INCLUSION_POLICY_LABELS,
+  LEVEL_NAMES,
+  MAPPING_TYPES,
+  MAX_LEVELS,
+  REPLACEMENT_POLICIES,
+  REPLACEMENT_POLICY_LABELS,
+  WRITE_MISS_POLICIES,
+  WRITE_MISS_POLICY_LABELS,
+  WRITE_POLICIES,
+  WRITE_POLICY_LABELS,
+  emptyStats,
+  isPolicyAvailable,
+  maxAddress,
+  parseAddressList,
+  validateHierarchy,
+  type AccessType,
+  type CacheConfig,
+  type CacheGeometry,
+  type CustomPolicySource,
+  type InclusionPolicy,
+  type MappingType,
+  type ReplacementOptions,
+  type ReplacementPolicy,
+  type TraceSource,
+  type WriteMissPolicy,
+  type WritePolicy,
+} from "@/lib/cache-engine"
 
 export function CacheVisualizer() {
   const { toast } = useToast()
-  const [mappingType, setMappingType] = useState(MAPPING_TYPES.DIRECT)
-  const [replacementPolicy, setReplacementPolicy] = useState(REPLACEMENT_POLICIES.FIFO)
+  const [mappingType, setMappingType] = useState<MappingType>(MAPPING_TYPES.DIRECT)
+  const [replacementPolicy, setReplacementPolicy] = useState<ReplacementPolicy>(REPLACEMENT_POLICIES.FIFO)
+  const [replacementOptions, setReplacementOptions] = useState<ReplacementOptions>(DEFAULT_REPLACEMENT_OPTIONS)
+  const [writePolicy, setWritePolicy] = useState<WritePolicy>(WRITE_POLICIES.WRITE_BACK)
+  const [writeMissPolicy, setWriteMissPolicy] = useState<WriteMissPolicy>(WRITE_MISS_POLICIES.WRITE_ALLOCATE)
+  const [geometry, setGeometry] = useState<CacheGeometry>(DEFAULT_GEOMETRY)
+  const [levelCount, setLevelCount] = useState(1)
+  const [lowerLevels, setLowerLevels] = useState<CacheConfig[]>(DEFAULT_LOWER_LEVELS)
+  const [inclusion, setInclusion] = useState<InclusionPolicy>(INCLUSION_POLICIES.NINE)
+  const [accessType, setAccessType] = useState<AccessType>(ACCESS_TYPES.READ)
   const [addressInput, setAddressInput] = useState("")
-  const [cache, setCache] = useState<
-    Array<{ address: number | null; timestamp: number; frequency: number; tag: number | null }>
-  >([])
-  const [mainMemory, setMainMemory] = useState<Array<number | null>>([])
-  const [stats, setStats] = useState({ hits: 0, compulsoryMisses: 0, capacityMisses: 0 })
-  const [animatingAddress, setAnimatingAddress] = useState<number | null>(null)
+  const [traceInput, setTraceInput] = useState("")
+  const [seed, setSeed] = useState(DEFAULT_SEED)
+  const [speed, setSpeed] = useState(1)
   const [showInfoModal, setShowInfoModal] = useState(false)
-  const [isAnimating, setIsAnimating] = useState(false)
-  const [animationType, setAnimationType] = useState<"hit" | "miss" | null>(null)
-  const [targetCacheIndex, setTargetCacheIndex] = useState<number | null>(null)
-  const [history, setHistory] = useState<HistoryEntry[]>([])
-  const [addressesEverSeen, setAddressesEverSeen] = useState<Set<number>>(new Set())
-
-  // Refs for animation positioning
-  const cacheBlockRefs = useRef<(HTMLDivElement | null)[]>([])
-  const mainMemoryRef = useRef<HTMLDivElement>(null)
-  const [targetPosition, setTargetPosition] = useState({ x: 0, y: 0 })
-
-  // Calculate index and tag bits based on mapping type
-  const getIndexBits = () => {
-    if (mappingType === MAPPING_TYPES.DIRECT) {
-      return Math.log2(CACHE_SIZE)
-    } else if (mappingType === MAPPING_TYPES.SET_ASSOCIATIVE) {
-      return Math.log2(CACHE_SIZE / SET_SIZE)
+  const [traceTab, setTraceTab] = useState("import")
+  const [sourceFocus, setSourceFocus] = useState<TraceSource | null>(null)
+  const { policies: customPolicies, savePolicy, deletePolicy } = useCustomPolicies()
+  const [customPolicyId, setCustomPolicyId] = useState<string | null>(null)
+  const [editingPolicy, setEditingPolicy] = useState<CustomPolicySource | null>(null)
+  const [showPolicyEditor, setShowPolicyEditor] = useState(false)
+
+  const customPolicy =
+    replacementPolicy === REPLACEMENT_POLICIES.CUSTOM
+      ? customPolicies.find((policy) => policy.id === customPolicyId)
+      : undefined
+
+  // L1 comes from the main controls; lower levels share its address width
+  const levels: CacheConfig[] = [
+    { ...geometry, mappingType, replacementPolicy, replacementOptions, customPolicy, writePolicy, writeMissPolicy },
+    ...lowerLevels.slice(0, levelCount - 1).map((level) => ({ ...level, addressBits: geometry.addressBits })),
+  ]
+
+  // The configuration and seed come back after a reload. Levels take the
+  // latest version of their custom policy, and fall back to LRU if it was
+  // deleted since, as deleting it would have done.
+  useSavedSession({ seed, levels: [levels[0], ...lowerLevels], levelCount, inclusion }, (saved) => {
+    const [l1, ...lower] = saved.levels
+    const storedPolicies = readStoredPolicies()
+    const customId = l1.customPolicy?.id
+    setGeometry({
+      capacity: l1.capacity,
+      blockSize: l1.blockSize,
+      associativity: l1.associativity,
+      addressBits: l1.addressBits,
+    })
+    setMappingType(l1.mappingType)
+    if (l1.replacementPolicy !== REPLACEMENT_POLICIES.CUSTOM) {
+      setReplacementPolicy(l1.replacementPolicy)
+    } else if (customId && storedPolicies.some((policy) => policy.id === customId)) {
+      setReplacementPolicy(REPLACEMENT_POLICIES.CUSTOM)
+      setCustomPolicyId(customId)
+    } else {
+      setReplacementPolicy(REPLACEMENT_POLICIES.LRU)
     }
-    return 0 // Fully associative has no index bits
+    setReplacementOptions({ ...DEFAULT_REPLACEMENT_OPTIONS, ...l1.replacementOptions })
+    setWritePolicy(l1.writePolicy)
+    setWriteMissPolicy(l1.writeMissPolicy)
+    setLowerLevels(
+      lower.map((level) => {
+        if (level.replacementPolicy !== REPLACEMENT_POLICIES.CUSTOM) return level
+        const stored = storedPolicies.find((policy) => policy.id === level.customPolicy?.id)
+        return stored
+          ? { ...level, customPolicy: stored }
+          : { ...level, replacementPolicy: REPLACEMENT_POLICIES.LRU, customPolicy: undefined }
+      }),
+    )
+    setLevelCount(saved.levelCount)
+    setInclusion(saved.inclusion)
+    setSeed(saved.seed)
+  })
+
+  // Fall back to NINE while the block sizes don't allow the chosen policy
+  const inclusionErrors = validateHierarchy(levels, inclusion)
+  const effectiveInclusion = inclusionErrors.length === 0 ? inclusion : INCLUSION_POLICIES.NINE
+
+  const {
+    layouts,
+    caches,
+    levelStats,
+    memoryTraffic,
+    mainMemory,
+    history,
+    nextUses,
+    policyBits,
+    policyLists,
+    clockHands,
+    agingCountdowns,
+    duelStates,
+    trace,
+    tracePosition,
+    timelinePosition,
+    timelineLength,
+    isPlaying,
+    animatingAddress,
+    animatingBlocks,
+    writebackBlocks,
+    currentAccess,
+    animationType,
+    transitionId,
+    isAnimating,
+    targetPosition,
+    cacheBlockRefs,
+    getAddressComponents,
+    completeTransition,
+    pendingAccesses,
+    enqueue,
+    clearQueue,
+    canStepForward,
+    loadTrace,
+    runToEnd,
+    stopBatch,
+    batchProgress,
+    stepForward,
+    stepBack,
+    seekTo,
+    play,
+    pause,
+    runSeedSweep,
+    runInBackground,
+    resetCache,
+  } = useCacheSimulation({ levels, inclusion: effectiveInclusion, seed, speed })
+
+  // List policies are only offered fully associative, so other mappings drop them
+  const changeMappingType = (type: MappingType) => {
+    setMappingType(type)
+    if (!isPolicyAvailable(replacementPolicy, type)) setReplacementPolicy(REPLACEMENT_POLICIES.FIFO)
   }
 
-  const getTagBits = () => {
-    return ADDRESS_BITS - getIndexBits() - OFFSET_BITS
+  const updateLowerLevel = (index: number, config: CacheConfig) => {
+    setLowerLevels((prev) => prev.map((level, i) => (i === index ? config : level)))
   }
 
-  // Calculate tag and index for an address
-  const getAddressComponents = (address: number) => {
-    const indexBits = getIndexBits()
-    const offsetBits = OFFSET_BITS
-
-    const offset = address & ((1 << offsetBits) - 1)
-
-    // For direct mapping, index is address % 8
-    // For set associative, index is address % 4 (set number)
-    let index = 0
-    if (mappingType === MAPPING_TYPES.DIRECT) {
-      index = address % 8
-    } else if (mappingType === MAPPING_TYPES.SET_ASSOCIATIVE) {
-      index = address % 4
-    }
-
-    // Tag is the remaining bits after offset and index
-    const tag = address >> (indexBits + offsetBits)
+  const openPolicyEditor = (policy: CustomPolicySource | null) => {
+    setEditingPolicy(policy)
+    setShowPolicyEditor(true)
+  }
 
-    return { tag, index, offset }
+  // Saving selects the policy for L1 and updates lower levels already using it
+  const handleSavePolicy = (policy: CustomPolicySource) => {
+    savePolicy(policy)
+    setReplacementPolicy(REPLACEMENT_POLICIES.CUSTOM)
+    setCustomPolicyId(policy.id)
+    setLowerLevels((prev) =>
+      prev.map((level) => (level.customPolicy?.id === policy.id ? { ...level, customPolicy: policy } : level)),
+    )
+    setShowPolicyEditor(false)
   }
 
-  // Initialize cache and main memory
-  useEffect(() => {
-    resetCache()
-  }, [mappingType, replacementPolicy])
-
-  const resetCache = () => {
-    setCache(
-      Array(CACHE_SIZE)
-        .fill(null)
-        .map(() => ({
-          address: null,
-          timestamp: 0,
-          frequency: 0,
-          tag: null,
-        })),
+  // Levels that used a deleted policy fall back to LRU
+  const handleDeletePolicy = (id: string) => {
+    deletePolicy(id)
+    if (customPolicy?.id === id) {
+      setReplacementPolicy(REPLACEMENT_POLICIES.LRU)
+      setCustomPolicyId(null)
+    }
+    setLowerLevels((prev) =>
+      prev.map((level) =>
+        level.customPolicy?.id === id
+          ? { ...level, replacementPolicy: REPLACEMENT_POLICIES.LRU, customPolicy: undefined }
+          : level,
+      ),
     )
-    setMainMemory(Array(MAIN_MEMORY_SIZE).fill(null))
-    setStats({ hits: 0, compulsoryMisses: 0, capacityMisses: 0 })
-    setHistory([])
-    setAddressesEverSeen(new Set())
+    setShowPolicyEditor(false)
   }
 
+  // Ref for the visualization container
+  const mainMemoryRef = useRef<HTMLDivElement>(null)
+
   const handleAddressSubmit = (e: React.FormEvent) => {
     e.preventDefault()
 
-    if (isAnimating) return // Prevent submitting during animation
-
     const address = Number.parseInt(addressInput)
 
-    if (isNaN(address) || address < 0 || address > 1048575) {
+    if (isNaN(address) || address < 0 || address > maxAddress(geometry.addressBits)) {
       toast({
         title: "Invalid address",
-        description: "Please enter a positive number up to 1048575 (20 bits)",
+        description: `Please enter a positive number up to ${maxAddress(geometry.addressBits)} (${geometry.addressBits} bits)`,
         variant: "destructive",
       })
       return
     }
 
-    processAddress(address)
+    // Waits its turn if another access is still animating
+    enqueue([{ address, type: accessType }])
     setAddressInput("")
   }
 
-  // Calculate cache index for an address based on mapping type
-  const getCacheIndex = (address: number) => {
-    const { index } = getAddressComponents(address)
-
-    if (mappingType === MAPPING_TYPES.DIRECT) {
-      return index
-    } else if (mappingType === MAPPING_TYPES.SET_ASSOCIATIVE) {
-      return index * SET_SIZE
-    }
-    return -1 // For fully associative
+  // Opens the loop-nest tab with the expression behind a history entry selected.
+  // A fresh object each time, so clicking the same entry twice selects it again.
+  const handleSourceClick = (source: TraceSource) => {
+    setTraceTab("loop-nest")
+    setSourceFocus({ ...source })
   }
 
-  // Update the processAddress function to handle dynamic addresses
-  const processAddress = (address: number) => {
-    setIsAnimating(true)
-
-    // Update main memory to include this address if it's not already there
-    const newMainMemory = [...mainMemory]
-    if (!newMainMemory.includes(address)) {
-      // If we've reached the limit, remove the oldest entry
-      if (newMainMemory.filter((addr) => addr !== null).length >= MAIN_MEMORY_SIZE) {
-        // Find the first non-null entry that's not in cache
-        const indexToRemove = newMainMemory.findIndex(
-          (addr) => addr !== null && !cache.some((block) => block.address === addr),
-        )
-
-        if (indexToRemove !== -1) {
-          newMainMemory[indexToRemove] = null
-        } else {
-          // If all addresses are in cache, just remove the first one
-          const firstNonNullIndex = newMainMemory.findIndex((addr) => addr !== null)
-          if (firstNonNullIndex !== -1) {
-            newMainMemory[firstNonNullIndex] = null
-          }
-        }
-      }
-
-      // Find an empty slot
-      const emptyIndex = newMainMemory.findIndex((addr) => addr === null)
-      if (emptyIndex !== -1) {
-        newMainMemory[emptyIndex] = address
-      } else {
-        // If no empty slot, add to the end
-        newMainMemory.push(address)
-      }
-    }
-    setMainMemory(newMainMemory)
-
-    // Set the animating address for visual feedback
-    setAnimatingAddress(address)
-
-    // Check if address is already in cache (cache hit)
-    const cacheIndex = findAddressInCache(address)
-    const { tag, index, offset } = getAddressComponents(address)
-
-    // Calculate target position for animation
-    setTimeout(() => {
-      if (cacheIndex !== -1) {
-        // For cache hit, target the existing block
-        const targetElement = cacheBlockRefs.current[cacheIndex]
-        if (targetElement) {
-          const rect = targetElement.getBoundingClientRect()
-          setTargetPosition({
-            x: rect.left + rect.width / 2,
-            y: rect.top + rect.height / 2,
-          })
-        }
-        setTargetCacheIndex(cacheIndex)
-      } else {
-        // For cache miss, calculate where it will go
-        let finalIndex: number
-
-        if (mappingType === MAPPING_TYPES.DIRECT) {
-          // Direct mapping - fixed location based on address
-          finalIndex = index
-        } else if (mappingType === MAPPING_TYPES.FULLY_ASSOCIATIVE) {
-          // Fully associative - can go anywhere, find using replacement policy
-          finalIndex = findReplacementIndex(0, CACHE_SIZE)
-        } else {
-          // Set associative - find the set first, then use replacement policy within that set
-          const setIndex = index
-          const startIdx = setIndex * SET_SIZE
-
-          // Check if there's an empty spot in the set
-          let emptyIndex = -1
-          for (let i = 0; i < SET_SIZE; i++) {
-            if (cache[startIdx + i].address === null) {
-              emptyIndex = startIdx + i
-              break
-            }
-          }
-
-          finalIndex = emptyIndex !== -1 ? emptyIndex : findReplacementIndex(startIdx, startIdx + SET_SIZE)
-        }
-
-        const targetElement = cacheBlockRefs.current[finalIndex]
-        if (targetElement) {
-          const rect = targetElement.getBoundingClientRect()
-          setTargetPosition({
-            x: rect.left + rect.width / 2,
-            y: rect.top + rect.height / 2,
-          })
-        }
-
-        setTargetCacheIndex(finalIndex)
-      }
-    }, 100)
-
-    if (cacheIndex !== -1) {
-      // Cache hit
-      setAnimationType("hit")
-      setTargetCacheIndex(cacheIndex)
-
-      // Add to history
-      const historyEntry: HistoryEntry = {
-        address,
-        tag,
-        index,
-        offset,
-        result: "hit",
-        timestamp: Date.now(),
-      }
-      setHistory((prev) => [historyEntry, ...prev])
-
-      // Delay the actual cache update to allow for animation
-      setTimeout(() => {
-        handleCacheHit(cacheIndex)
-
-        // Clear animation after a delay
-        setTimeout(() => {
-          setAnimatingAddress(null)
-          setAnimationType(null)
-          setTargetCacheIndex(null)
-          setIsAnimating(false)
-        }, 500)
-      }, 1000)
-
-      return
-    }
-
-    // Cache miss - handle according to mapping type
-    setAnimationType("miss")
-
-    // Determine miss type
-    let missType: "compulsory" | "capacity" | "both" = "compulsory"
-    const isAddressFirstTime = !addressesEverSeen.has(address)
-
-    // Check if all cache blocks are full or if we need to replace in direct/set-associative
-    let willReplace = false
-    let finalIndex: number
-
-    if (mappingType === MAPPING_TYPES.DIRECT) {
-      // Direct mapping - fixed location based on address
-      finalIndex = index
-      willReplace = cache[finalIndex].address !== null
-    } else if (mappingType === MAPPING_TYPES.FULLY_ASSOCIATIVE) {
-      // For fully associative, check if the entire cache is full
-      willReplace = cache.every((block) => block.address !== null)
-      finalIndex = findReplacementIndex(0, CACHE_SIZE)
-    } else {
-      // For set associative, check if the specific set is full
-      const setIndex = index
-      const startIdx = setIndex * SET_SIZE
-
-      // Check if there's an empty spot in the set
-      let emptyIndex = -1
-      for (let i = 0; i < SET_SIZE; i++) {
-        if (cache[startIdx + i].address === null) {
-          emptyIndex = startIdx + i
-          break
-        }
-      }
-
-      willReplace = emptyIndex === -1
-      finalIndex = emptyIndex !== -1 ? emptyIndex : findReplacementIndex(startIdx, startIdx + SET_SIZE)
-    }
-
-    setTargetCacheIndex(finalIndex)
-
-    if (isAddressFirstTime) {
-      // First time seeing this address
-      missType = willReplace ? "both" : "compulsory"
-    } else {
-      // We've seen this address before
-      missType = willReplace ? "capacity" : "compulsory"
-    }
-
-    // Add to history
-    const historyEntry: HistoryEntry = {
-      address,
-      tag,
-      index,
-      offset,
-      result: "miss",
-      missType,
-      timestamp: Date.now(),
-    }
-    setHistory((prev) => [historyEntry, ...prev])
-
-    // Update addresses ever seen
-    setAddressesEverSeen((prev) => new Set([...prev, address]))
-
-    // Delay the actual cache update to allow for animation
-    setTimeout(() => {
-      handleCacheMiss(address, missType, finalIndex)
-
-      // Clear animation after a delay
-      setTimeout(() => {
-        setAnimatingAddress(null)
-        setAnimationType(null)
-        setTargetCacheIndex(null)
-        setIsAnimating(false)
-      }, 500)
-    }, 1500)
-  }
-
-  const findAddressInCache = (address: number): number => {
-    const { tag, index } = getAddressComponents(address)
-
-    if (mappingType === MAPPING_TYPES.DIRECT) {
-      // For direct mapping, check only the specific index
-      const blockIndex = index
-      return cache[blockIndex]?.address === address ? blockIndex : -1
-    } else if (mappingType === MAPPING_TYPES.FULLY_ASSOCIATIVE) {
-      // For fully associative, check all cache blocks
-      return cache.findIndex((block) => block.address === address)
-    } else {
-      // For set-associative, check only within the specific set
-      const setIndex = index
-      const startIdx = setIndex * SET_SIZE
-
-      for (let i = 0; i < SET_SIZE; i++) {
-        if (cache[startIdx + i]?.address === address) {
-          return startIdx + i
-        }
-      }
-
-      return -1
-    }
-  }
-
-  const handleCacheHit = (cacheIndex: number) => {
-    // Update stats
-    setStats((prev) => ({ ...prev, hits: prev.hits + 1 }))
-
-    // Update LRU/LFU information
-    const newCache = [...cache]
-
-    // Update timestamp for LRU
-    newCache[cacheIndex].timestamp = Date.now()
-
-    // Update frequency for LFU
-    newCache[cacheIndex].frequency += 1
-
-    setCache(newCache)
-
-    // Show toast notification
-    toast({
-      title: "Cache Hit!",
-      description: `Address ${cache[cacheIndex].address} found in cache at index ${cacheIndex}`,
-      variant: "default",
-    })
-  }
-
-  // Update the handleCacheMiss function to handle dynamic addresses
-  const handleCacheMiss = (address: number, missType: "compulsory" | "capacity" | "both", cacheIndex: number) => {
-    const { tag } = getAddressComponents(address)
-
-    // Update stats based on miss type
-    setStats((prev) => {
-      if (missType === "compulsory") {
-        return { ...prev, compulsoryMisses: prev.compulsoryMisses + 1 }
-      } else if (missType === "capacity") {
-        return { ...prev, capacityMisses: prev.capacityMisses + 1 }
-      } else {
-        // "both"
-        return {
-          ...prev,
-          compulsoryMisses: prev.compulsoryMisses + 1,
-          capacityMisses: prev.capacityMisses + 1,
-        }
-      }
-    })
-
-    // Update cache
-    const newCache = [...cache]
-
-    // If we're replacing an existing address, we don't need to remove it from main memory
-    // since we're now showing all addresses that have been entered
-    newCache[cacheIndex] = {
-      address,
-      timestamp: Date.now(),
-      frequency: 1,
-      tag,
-    }
-
-    setCache(newCache)
-
-    // Show toast notification
-    let missTitle = ""
-    if (missType === "compulsory") {
-      missTitle = "Compulsory Miss!"
-    } else if (missType === "capacity") {
-      missTitle = "Capacity Miss!"
-    } else {
-      missTitle = "Compulsory & Capacity Miss!"
-    }
-
-    toast({
-      title: missTitle,
-      description: `Address ${address} placed in cache at index ${cacheIndex}`,
-      variant: "default",
-    })
-  }
+  const handleTraceSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
 
-  const findReplacementIndex = (startIdx: number, endIdx: number): number => {
-    const candidateBlocks = cache.slice(startIdx, endIdx)
+    if (isAnimating) return
 
-    // If there's an empty block, use that first
-    const emptyIndex = candidateBlocks.findIndex((block) => block.address === null)
-    if (emptyIndex !== -1) {
-      return startIdx + emptyIndex
+    const { entries, errors } = parseAddressList(traceInput, maxAddress(geometry.addressBits))
+    if (errors.length > 0) {
+      toast({ title: "Invalid trace", description: errors[0], variant: "destructive" })
+      return
     }
 
-    // Otherwise, use the selected replacement policy
-    switch (replacementPolicy) {
-      case REPLACEMENT_POLICIES.FIFO:
-        // Find the oldest block (lowest timestamp)
-        return (
-          startIdx +
-          candidateBlocks.reduce(
-            (minIdx, block, idx, arr) => (block.timestamp < arr[minIdx].timestamp ? idx : minIdx),
-            0,
-          )
-        )
-
-      case REPLACEMENT_POLICIES.LRU:
-        // Find the least recently used block (lowest timestamp)
-        return (
-          startIdx +
-          candidateBlocks.reduce(
-            (minIdx, block, idx, arr) => (block.timestamp < arr[minIdx].timestamp ? idx : minIdx),
-            0,
-          )
-        )
-
-      case REPLACEMENT_POLICIES.LFU:
-        // Find the least frequently used block (lowest frequency)
-        return (
-          startIdx +
-          candidateBlocks.reduce(
-            (minIdx, block, idx, arr) => (block.frequency < arr[minIdx].frequency ? idx : minIdx),
-            0,
-          )
-        )
-
-      case REPLACEMENT_POLICIES.RANDOM:
-        // Choose a random block
-        return startIdx + Math.floor(Math.random() * (endIdx - startIdx))
-
-      default:
-        return startIdx
-    }
+    loadTrace(entries)
   }
 
   return (
@@ -553,7 +313,7 @@ export function CacheVisualizer() {
             <div className="flex flex-wrap gap-2">
               <Button
                 variant={mappingType === MAPPING_TYPES.DIRECT ? "default" : "outline"}
-                onClick={() => setMappingType(MAPPING_TYPES.DIRECT)}
+                onClick={() => changeMappingType(MAPPING_TYPES.DIRECT)}
                 className="flex-1"
                 disabled={isAnimating}
               >
@@ -561,7 +321,7 @@ export function CacheVisualizer() {
               </Button>
               <Button
                 variant={mappingType === MAPPING_TYPES.FULLY_ASSOCIATIVE ? "default" : "outline"}
-                onClick={() => setMappingType(MAPPING_TYPES.FULLY_ASSOCIATIVE)}
+                onClick={() => changeMappingType(MAPPING_TYPES.FULLY_ASSOCIATIVE)}
                 className="flex-1"
                 disabled={isAnimating}
               >
@@ -569,7 +329,7 @@ export function CacheVisualizer() {
               </Button>
               <Button
                 variant={mappingType === MAPPING_TYPES.SET_ASSOCIATIVE ? "default" : "outline"}
-                onClick={() => setMappingType(MAPPING_TYPES.SET_ASSOCIATIVE)}
+                onClick={() => changeMappingType(MAPPING_TYPES.SET_ASSOCIATIVE)}
                 className="flex-1"
                 disabled={isAnimating}
               >
@@ -582,98 +342,362 @@ export function CacheVisualizer() {
           <div>
             <h3 className="text-lg font-medium mb-2">Replacement Policy</h3>
             <div className="flex flex-wrap gap-2">
-              <Button
-                variant={replacementPolicy === REPLACEMENT_POLICIES.FIFO ? "default" : "outline"}
-                onClick={() => setReplacementPolicy(REPLACEMENT_POLICIES.FIFO)}
-                className="flex-1"
-                disabled={mappingType === MAPPING_TYPES.DIRECT || isAnimating}
-              >
-                FIFO
-              </Button>
-              <Button
-                variant={replacementPolicy === REPLACEMENT_POLICIES.LRU ? "default" : "outline"}
-                onClick={() => setReplacementPolicy(REPLACEMENT_POLICIES.LRU)}
-                className="flex-1"
-                disabled={mappingType === MAPPING_TYPES.DIRECT || isAnimating}
-              >
-                LRU
-              </Button>
-              <Button
-                variant={replacementPolicy === REPLACEMENT_POLICIES.LFU ? "default" : "outline"}
-                onClick={() => setReplacementPolicy(REPLACEMENT_POLICIES.LFU)}
-                className="flex-1"
-                disabled={mappingType === MAPPING_TYPES.DIRECT || isAnimating}
-              >
-                LFU
-              </Button>
-              <Button
-                variant={replacementPolicy === REPLACEMENT_POLICIES.RANDOM ? "default" : "outline"}
-                onClick={() => setReplacementPolicy(REPLACEMENT_POLICIES.RANDOM)}
-                className="flex-1"
-                disabled={mappingType === MAPPING_TYPES.DIRECT || isAnimating}
-              >
-                Random
+              {BUILT_IN_POLICIES.map((policy) => (
+                <Button
+                  key={policy}
+                  variant={replacementPolicy === policy ? "default" : "outline"}
+                  onClick={() => setReplacementPolicy(policy)}
+                  className="flex-1"
+                  disabled={
+                    mappingType === MAPPING_TYPES.DIRECT || !isPolicyAvailable(policy, mappingType) || isAnimating
+                  }
+                >
+                  {REPLACEMENT_POLICY_LABELS[policy]}
+                </Button>
+              ))}
+              {customPolicies.map((policy) => (
+                <Button
+                  key={policy.id}
+                  variant={customPolicy?.id === policy.id ? "default" : "outline"}
+                  onClick={() => {
+                    setReplacementPolicy(REPLACEMENT_POLICIES.CUSTOM)
+                    setCustomPolicyId(policy.id)
+                  }}
+                  className="flex-1"
+                  disabled={mappingType === MAPPING_TYPES.DIRECT || isAnimating}
+                >
+                  {policy.name}
+                </Button>
+              ))}
+            </div>
+            <div className="flex flex-wrap gap-2 mt-2">
+              <Button variant="outline" size="sm" onClick={() => openPolicyEditor(null)} disabled={isAnimating}>
+                <Plus className="h-4 w-4 mr-1" /> New Policy
               </Button>
+              {customPolicy && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => openPolicyEditor(customPolicy)}
+                  disabled={isAnimating}
+                >
+                  <Pencil className="h-4 w-4 mr-1" /> Edit {customPolicy.name}
+                </Button>
+              )}
             </div>
             {mappingType === MAPPING_TYPES.DIRECT && (
               <p className="text-sm text-gray-500 mt-2">
                 Note: Replacement policy is not applicable for Direct Mapping
               </p>
             )}
+            {mappingType === MAPPING_TYPES.SET_ASSOCIATIVE && (
+              <p className="text-sm text-gray-500 mt-2">
+                Note: SLRU, 2Q and ARC split the whole cache into lists and need Fully Associative mapping
+              </p>
+            )}
+            {mappingType !== MAPPING_TYPES.DIRECT &&
+              replacementPolicy === REPLACEMENT_POLICIES.OPT &&
+              trace.length === 0 && (
+                <p className="text-sm text-gray-500 mt-2">
+                  Note: OPT needs to know the future. Load a trace below, otherwise it can only evict like LRU.
+                </p>
+              )}
+            {mappingType !== MAPPING_TYPES.DIRECT && (
+              <div className="mt-3">
+                <ReplacementOptionsPanel
+                  policy={replacementPolicy}
+                  options={replacementOptions}
+                  onChange={setReplacementOptions}
+                  disabled={isAnimating}
+                />
+              </div>
+            )}
+          </div>
+
+          {/* Random Seed */}
+          <SeedControl seed={seed} onChange={setSeed} disabled={isAnimating} />
+
+          {/* Write Policy Selection */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <h3 className="text-lg font-medium mb-2">Write Policy</h3>
+              <div className="flex flex-wrap gap-2">
+                {Object.values(WRITE_POLICIES).map((policy) => (
+                  <Button
+                    key={policy}
+                    variant={writePolicy === policy ? "default" : "outline"}
+                    onClick={() => setWritePolicy(policy)}
+                    className="flex-1"
+                    disabled={isAnimating}
+                  >
+                    {WRITE_POLICY_LABELS[policy]}
+                  </Button>
+                ))}
+              </div>
+            </div>
+            <div>
+              <h3 className="text-lg font-medium mb-2">Write Miss Policy</h3>
+              <div className="flex flex-wrap gap-2">
+                {Object.values(WRITE_MISS_POLICIES).map((policy) => (
+                  <Button
+                    key={policy}
+                    variant={writeMissPolicy === policy ? "default" : "outline"}
+                    onClick={() => setWriteMissPolicy(policy)}
+                    className="flex-1"
+                    disabled={isAnimating}
+                  >
+                    {WRITE_MISS_POLICY_LABELS[policy]}
+                  </Button>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          {/* Cache Geometry */}
+          <div>
+            <h3 className="text-lg font-medium mb-2">Cache Geometry</h3>
+            <CacheConfigPanel geometry={geometry} onChange={setGeometry} disabled={isAnimating} />
+          </div>
+
+          {/* Cache Hierarchy */}
+          <div>
+            <h3 className="text-lg font-medium mb-2">Cache Levels</h3>
+            <div className="flex flex-wrap gap-2">
+              {Array.from({ length: MAX_LEVELS }, (_, i) => i + 1).map((count) => (
+                <Button
+                  key={count}
+                  variant={levelCount === count ? "default" : "outline"}
+                  onClick={() => setLevelCount(count)}
+                  className="flex-1"
+                  disabled={isAnimating}
+                >
+                  {count === 1 ? "L1 Only" : LEVEL_NAMES.slice(0, count).join(" + ")}
+                </Button>
+              ))}
+            </div>
+            {levelCount > 1 && (
+              <div className="mt-4">
+                <h4 className="text-md font-medium mb-2">Inclusion Policy</h4>
+                <div className="flex flex-wrap gap-2">
+                  {Object.values(INCLUSION_POLICIES).map((policy) => (
+                    <Button
+                      key={policy}
+                      variant={inclusion === policy ? "default" : "outline"}
+                      onClick={() => setInclusion(policy)}
+                      className="flex-1"
+                      disabled={isAnimating || validateHierarchy(levels, policy).length > 0}
+                    >
+                      {INCLUSION_POLICY_LABELS[policy]}
+                    </Button>
+                  ))}
+                </div>
+                {inclusionErrors.length > 0 && (
+                  <p className="text-sm text-[#9d6b53] dark:text-red-300 mt-2">
+                    {inclusionErrors[0]}. Simulating as non-inclusive until the block sizes match.
+                  </p>
+                )}
+              </div>
+            )}
+            {levelCount > 1 && (
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 mt-4">
+                {levels.slice(1).map((level, i) => (
+                  <CacheLevelConfig
+                    key={LEVEL_NAMES[i + 1]}
+                    name={LEVEL_NAMES[i + 1]}
+                    config={level}
+                    onChange={(config) => updateLowerLevel(i, config)}
+                    customPolicies={customPolicies}
+                    disabled={isAnimating}
+                  />
+                ))}
+              </div>
+            )}
           </div>
 
           {/* Address Input */}
           <form onSubmit={handleAddressSubmit} className="flex items-end gap-2">
+            <div>
+              <Label className="mb-2 block">Access</Label>
+              <div className="flex">
+                {Object.values(ACCESS_TYPES).map((type, i) => (
+                  <Button
+                    key={type}
+                    type="button"
+                    variant={accessType === type ? "default" : "outline"}
+                    onClick={() => setAccessType(type)}
+                    className={i === 0 ? "rounded-r-none" : "rounded-l-none"}
+                  >
+                    {ACCESS_TYPE_LABELS[type]}
+                  </Button>
+                ))}
+              </div>
+            </div>
             <div className="flex-1">
               <Label htmlFor="address" className="mb-2 block">
-                Memory Address (0 to 1048575)
+                Memory Address (0 to {maxAddress(geometry.addressBits)})
               </Label>
               <Input
                 id="address"
                 type="number"
                 min="0"
-                max="1048575"
+                max={maxAddress(geometry.addressBits)}
                 value={addressInput}
                 onChange={(e) => setAddressInput(e.target.value)}
                 placeholder="Enter address"
                 className="w-full"
-                disabled={isAnimating}
               />
             </div>
-            <Button type="submit" className="flex items-center gap-1" disabled={isAnimating}>
+            <Button type="submit" className="flex items-center gap-1">
               Add Address <ArrowRight className="h-4 w-4" />
             </Button>
-            <Button type="button" variant="outline" onClick={resetCache} disabled={isAnimating}>
+            <Button type="button" variant="outline" onClick={resetCache}>
               <RefreshCw className="h-4 w-4 mr-1" /> Reset
             </Button>
           </form>
+          <PendingQueue queue={pendingAccesses} onClear={clearQueue} />
+
+          {/* Trace Input */}
+          <form onSubmit={handleTraceSubmit} className="flex items-end gap-2">
+            <div className="flex-1">
+              <Label htmlFor="trace" className="mb-2 block">
+                Trace (addresses separated by spaces or commas, W marks a store)
+              </Label>
+              <Input
+                id="trace"
+                value={traceInput}
+                onChange={(e) => setTraceInput(e.target.value)}
+                placeholder="e.g. 0 32 W64 0 0x80"
+                className="w-full font-mono"
+                disabled={isAnimating}
+              />
+            </div>
+            <Button type="submit" variant="outline" disabled={isAnimating || traceInput.trim() === ""}>
+              <ListOrdered className="h-4 w-4 mr-1" /> Load Trace
+            </Button>
+          </form>
+          <Tabs value={traceTab} onValueChange={setTraceTab}>
+            <TabsList>
+              <TabsTrigger value="import">Import File</TabsTrigger>
+              <TabsTrigger value="generate">Generate</TabsTrigger>
+              <TabsTrigger value="loop-nest">Loop Nest</TabsTrigger>
+            </TabsList>
+            <TabsContent value="import">
+              <TraceImport maxAddress={maxAddress(geometry.addressBits)} onLoad={loadTrace} disabled={isAnimating} />
+            </TabsContent>
+            <TabsContent value="generate">
+              <TraceGenerator
+                maxAddress={maxAddress(geometry.addressBits)}
+                blockSize={geometry.blockSize}
+                onLoad={loadTrace}
+                disabled={isAnimating}
+              />
+            </TabsContent>
+            <TabsContent value="loop-nest">
+              <LoopNestEditor
+                maxAddress={maxAddress(geometry.addressBits)}
+                onLoad={loadTrace}
+                focus={sourceFocus}
+                disabled={isAnimating}
+              />
+            </TabsContent>
+          </Tabs>
+          {trace.length > 0 && (
+            <p className="text-sm text-muted-foreground">
+              {tracePosition < trace.length
+                ? `Access #${tracePosition + 1} of ${trace.length} is next: ${ACCESS_TYPE_LABELS[trace[tracePosition].type]} ${trace[tracePosition].address}`
+                : `All ${trace.length} accesses of the trace have run`}
+              {trace[tracePosition]?.source && ` from ${trace[tracePosition].source?.element}`}
+            </p>
+          )}
+          {timelineLength > 0 && (
+            <PlaybackControls
+              position={timelinePosition}
+              length={timelineLength}
+              isPlaying={isPlaying}
+              onPlay={play}
+              onPause={pause}
+              onStepForward={stepForward}
+              onStepBack={stepBack}
+              onSeek={seekTo}
+              canStepForward={canStepForward}
+              disabled={isAnimating || pendingAccesses.length > 0}
+            />
+          )}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <SpeedControl speed={speed} onChange={setSpeed} />
+            {timelineLength > 0 && (
+              <BatchRun
+                remaining={timelineLength - timelinePosition}
+                progress={batchProgress}
+                onRun={runToEnd}
+                onStop={stopBatch}
+                disabled={isAnimating || pendingAccesses.length > 0}
+              />
+            )}
+          </div>
+          {trace.length > 0 && (
+            <SeedSweepPanel seed={seed} traceLength={trace.length} onRun={runSeedSweep} disabled={isAnimating} />
+          )}
+          <BackgroundRunPanel
+            trace={trace}
+            maxAddress={maxAddress(geometry.addressBits)}
+            l1={levels[0]}
+            l1Layout={layouts[0]}
+            onRun={runInBackground}
+            disabled={isAnimating}
+          />
         </div>
       </div>
 
+      {/* Access path through the hierarchy */}
+      {levelCount > 1 && <AccessCascade depth={levelCount} access={currentAccess} />}
+
       {/* Visualization - Now side by side */}
       <div className="flex flex-col md:flex-row gap-6 relative" ref={mainMemoryRef}>
         {/* Main Memory - Now on the right */}
         <div className="md:order-2 md:w-1/2">
           <h3 className="text-xl font-semibold mb-4 text-center">Main Memory</h3>
-          <MainMemory memory={mainMemory} animatingAddress={animatingAddress} />
+          <MainMemory
+            memory={mainMemory}
+            blockSize={geometry.blockSize}
+            animatingBlock={animatingBlocks[0]}
+            writebackBlocks={writebackBlocks}
+          />
         </div>
 
         {/* Cache Memory - Now on the left */}
-        <div className="md:order-0 md:w-1/2">
-          <h3 className="text-xl font-semibold mb-4 text-center">Cache Memory</h3>
-          <CacheMemory
-            cache={cache}
-            mappingType={mappingType}
-            setSize={SET_SIZE}
-            animatingAddress={animatingAddress}
-            cacheBlockRefs={cacheBlockRefs}
-          />
+        <div className="md:order-0 md:w-1/2 space-y-6">
+          {caches.map((cache, level) => (
+            <div key={LEVEL_NAMES[level]}>
+              <h3 className="text-xl font-semibold mb-4 text-center">
+                {levelCount > 1 ? `${LEVEL_NAMES[level]} Cache` : "Cache Memory"}
+              </h3>
+              <CacheMemory
+                cache={cache}
+                numSets={layouts[level].numSets}
+                ways={layouts[level].ways}
+                blockSize={levels[level].blockSize}
+                animatingBlock={animatingBlocks[level]}
+                nextUses={levels[level].replacementPolicy === REPLACEMENT_POLICIES.OPT ? nextUses[level] : undefined}
+                replacementPolicy={levels[level].replacementPolicy}
+                policyBits={policyBits[level]}
+                clockHands={clockHands[level]}
+                policyLists={policyLists[level]}
+                agingCountdown={agingCountdowns[level]}
+                rrpvBits={{ ...DEFAULT_REPLACEMENT_OPTIONS, ...levels[level].replacementOptions }.rrpvBits}
+                duel={duelStates[level]}
+                cacheBlockRefs={level === 0 ? cacheBlockRefs : undefined}
+              />
+            </div>
+          ))}
         </div>
 
         {/* Sliding Animation for Address Block */}
         <AnimatePresence>
           {animatingAddress !== null && animationType === "miss" && (
             <motion.div
+              key={transitionId}
+              onAnimationComplete={() => completeTransition(transitionId)}
               className="absolute z-10 p-3 rounded-lg border-2 bg-white dark:bg-gray-800 border-yellow-400 shadow-lg flex items-center justify-between"
               style={{
                 width: "120px",
@@ -698,7 +722,7 @@ export function CacheVisualizer() {
                 opacity: 0,
               }}
               transition={{
-                duration: 1.5,
+                duration: 1.5 / speed,
                 ease: "easeInOut",
               }}
             >
@@ -715,6 +739,8 @@ export function CacheVisualizer() {
         <AnimatePresence>
           {animatingAddress !== null && animationType === "hit" && targetPosition.x !== 0 && (
             <motion.div
+              key={transitionId}
+              onAnimationComplete={() => completeTransition(transitionId)}
               className="absolute z-10 bg-green-400 dark:bg-green-500 rounded-full opacity-50"
               style={{
                 width: "40px",
@@ -738,7 +764,7 @@ export function CacheVisualizer() {
                 opacity: 0,
               }}
               transition={{
-                duration: 0.8,
+                duration: 0.8 / speed,
                 ease: "easeInOut",
               }}
             />
@@ -747,13 +773,27 @@ export function CacheVisualizer() {
       </div>
 
       {/* Cache Stats - Now below the visualization */}
-      <CacheStats stats={stats} />
+      <CacheStats
+        stats={levelStats[0] ?? emptyStats()}
+        levelStats={levelStats}
+        traffic={memoryTraffic}
+        duels={duelStates}
+      />
 
       {/* Cache History */}
-      <CacheHistory history={history} />
+      <CacheHistory history={history} showServedBy={levelCount > 1} onSourceClick={handleSourceClick} />
 
       {/* Info Modal */}
       <CacheInfoModal open={showInfoModal} onClose={() => setShowInfoModal(false)} />
+
+      {/* Custom Policy Editor */}
+      <CustomPolicyEditor
+        open={showPolicyEditor}
+        policy={editingPolicy}
+        onSave={handleSavePolicy}
+        onDelete={handleDeletePolicy}
+        onClose={() => setShowPolicyEditor(false)}
+      />
     </div>
   )
 }
@@ -0,0 +1,162 @@
+"use client"
+
+import type React from "react"
+
+import { useEffect, useState } from "react"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { FlaskConical, Save, Trash2 } from "lucide-react"
+import { DEFAULT_CUSTOM_POLICY_SOURCE, type CustomPolicySource } from "@/lib/cache-engine"
+import { testCustomPolicy } from "@/lib/cache-engine/sandbox"
+
+interface CustomPolicyEditorProps {
+  open: boolean
+  policy: CustomPolicySource | null // null starts a new policy
+  onSave: (policy: CustomPolicySource) => void
+  onDelete: (id: string) => void
+  onClose: () => void
+}
+
+const INDENT = "  "
+
+// Fields and hooks available to policy code, shown next to the editor
+const API_REFERENCE = [
+  ["chooseVictim(ctx)", "Required. Return the way to evict, called only when the set is full"],
+  ["onHit(ctx, way)", "Optional. Called after a hit on the given way"],
+  ["onFill(ctx, way)", "Optional. Called after a block is placed in the given way"],
+  ["ctx.set, ctx.ways, ctx.time", "Set index, ways per set and the logical clock"],
+  ["ctx.lines[way]", "valid, blockAddress, tag, insertedAt, lastUsed, frequency, dirty"],
+  ["ctx.lines[way].meta", "Your own state for the line, cleared on every fill"],
+  ["ctx.random()", "The simulator's random source, use it instead of Math.random"],
+]
+
+// Writes, tests and saves a replacement policy in JavaScript. The code only
+// ever runs in the policy sandbox worker.
+export function CustomPolicyEditor({ open, policy, onSave, onDelete, onClose }: CustomPolicyEditorProps) {
+  const [id, setId] = useState("")
+  const [name, setName] = useState("")
+  const [source, setSource] = useState(DEFAULT_CUSTOM_POLICY_SOURCE)
+  const [isTesting, setIsTesting] = useState(false)
+  const [testResult, setTestResult] = useState<{ ok: boolean; message: string } | null>(null)
+
+  // Start from the policy being edited each time the dialog opens
+  useEffect(() => {
+    if (!open) return
+    setId(policy?.id ?? `policy-${Date.now().toString(36)}`)
+    setName(policy?.name ?? "")
+    setSource(policy?.source ?? DEFAULT_CUSTOM_POLICY_SOURCE)
+    setTestResult(null)
+  }, [open, policy?.id])
+
+  const draft: CustomPolicySource = { id, name: name.trim(), source }
+
+  const handleTest = async () => {
+    setIsTesting(true)
+    try {
+      const stats = await testCustomPolicy({ ...draft, name: draft.name || "Custom policy" })
+      const accesses = stats.hits + stats.compulsoryMisses + stats.capacityMisses + stats.conflictMisses
+      setTestResult({ ok: true, message: `Ran ${accesses} accesses on a 4-way cache: ${stats.hits} hits` })
+    } catch (error) {
+      setTestResult({ ok: false, message: error instanceof Error ? error.message : String(error) })
+    } finally {
+      setIsTesting(false)
+    }
+  }
+
+  // Tab indents instead of leaving the editor
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key !== "Tab" || e.shiftKey) return
+    e.preventDefault()
+
+    const { selectionStart, selectionEnd } = e.currentTarget
+    setSource(source.slice(0, selectionStart) + INDENT + source.slice(selectionEnd))
+    const textarea = e.currentTarget
+    requestAnimationFrame(() =>
+      textarea.setSelectionRange(selectionStart + INDENT.length, selectionStart + INDENT.length),
+    )
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{policy ? `Edit ${policy.name}` : "New Replacement Policy"}</DialogTitle>
+          <DialogDescription>
+            Write a policy in JavaScript. It runs in a sandboxed worker and is saved in this browser.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="custom-policy-name" className="mb-2 block">
+              Name
+            </Label>
+            <Input
+              id="custom-policy-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Fewest Hits"
+            />
+          </div>
+
+          <div>
+            <Label htmlFor="custom-policy-source" className="mb-2 block">
+              Code
+            </Label>
+            <Textarea
+              id="custom-policy-source"
+              value={source}
+              onChange={(e) => {
+                setSource(e.target.value)
+                setTestResult(null)
+              }}
+              onKeyDown={handleKeyDown}
+              spellCheck={false}
+              rows={16}
+              className="font-mono text-xs"
+            />
+          </div>
+
+          <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-xs">
+            {API_REFERENCE.map(([term, description]) => (
+              <div key={term} className="contents">
+                <dt className="font-mono">{term}</dt>
+                <dd className="text-muted-foreground">{description}</dd>
+              </div>
+            ))}
+          </dl>
+
+          {testResult && (
+            <p className={`text-sm ${testResult.ok ? "text-muted-foreground" : "text-[#9d6b53] dark:text-red-300"}`}>
+              {testResult.message}
+            </p>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2">
+          {policy && (
+            <Button type="button" variant="outline" onClick={() => onDelete(policy.id)} className="sm:mr-auto">
+              <Trash2 className="h-4 w-4 mr-1" /> Delete
+            </Button>
+          )}
+          <Button type="button" variant="outline" onClick={handleTest} disabled={isTesting}>
+            <FlaskConical className="h-4 w-4 mr-1" /> {isTesting ? "Testing..." : "Test in Sandbox"}
+          </Button>
+          <Button type="button" onClick={() => onSave(draft)} disabled={draft.name === ""}>
+            <Save className="h-4 w-4 mr-1" /> Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,159 @@
+"use client"
+
+import type React from "react"
+
+import { useEffect, useMemo, useRef, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Textarea } from "@/components/ui/textarea"
+import { ListOrdered } from "lucide-react"
+import {
+  ACCESS_TYPES,
+  ARRAY_LAYOUT_LABELS,
+  DEFAULT_LOOP_NEST_SOURCE,
+  compileLoopNest,
+  type TraceAccess,
+  type TraceSource,
+} from "@/lib/cache-engine"
+
+interface LoopNestEditorProps {
+  maxAddress: number
+  onLoad: (entries: TraceAccess[]) => void
+  focus: TraceSource | null // Expression to select, e.g. one picked in the history
+  disabled?: boolean
+}
+
+const INDENT = "  "
+const PREVIEW_LENGTH = 24
+
+// Statements the language understands, shown under the editor
+const SYNTAX_REFERENCE = [
+  ["int A[8][8] at 0x100;", "An array of char, short, int, float, long or double at a base address"],
+  ["double B[64] col_major;", "Row-major unless marked col_major, placed after the last array without at"],
+  ["for (int i = 0; i < n; i++)", "Steps may be ++, --, += or -=, and bounds may use outer loop variables"],
+  ["C[i][j] += A[i][k] * B[k][j];", "Reads the right-hand side left to right, then the target, then stores"],
+  ["int sum = 0; sum += A[i];", "Plain variables live in registers and make no accesses"],
+]
+
+// Writes a loop nest over arrays and compiles it into the loads and stores it
+// makes, each one remembering the expression it came from
+export function LoopNestEditor({ maxAddress, onLoad, focus, disabled }: LoopNestEditorProps) {
+  const [source, setSource] = useState(DEFAULT_LOOP_NEST_SOURCE)
+  const [focusMissing, setFocusMissing] = useState(false)
+  const textareaRef = useRef<HTMLTextAreaElement>(null)
+
+  const compiled = useMemo(() => compileLoopNest(source, maxAddress), [source, maxAddress])
+
+  // Select the expression behind a history entry, unless the program has
+  // been edited since and it's no longer where it was
+  useEffect(() => {
+    const textarea = textareaRef.current
+    if (!focus || !textarea) return
+    const stillThere = source.slice(focus.start, focus.end) === focus.expression
+    setFocusMissing(!stillThere)
+    if (!stillThere) return
+    textarea.focus()
+    textarea.setSelectionRange(focus.start, focus.end)
+  }, [focus])
+
+  // Tab indents instead of leaving the editor
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key !== "Tab" || e.shiftKey) return
+    e.preventDefault()
+
+    const { selectionStart, selectionEnd } = e.currentTarget
+    setSource(source.slice(0, selectionStart) + INDENT + source.slice(selectionEnd))
+    const textarea = e.currentTarget
+    requestAnimationFrame(() =>
+      textarea.setSelectionRange(selectionStart + INDENT.length, selectionStart + INDENT.length),
+    )
+  }
+
+  return (
+    <div className="space-y-3">
+      <Textarea
+        ref={textareaRef}
+        aria-label="Loop nest program"
+        value={source}
+        onChange={(e) => {
+          setSource(e.target.value)
+          setFocusMissing(false)
+        }}
+        onKeyDown={handleKeyDown}
+        spellCheck={false}
+        rows={10}
+        className="font-mono text-xs"
+        disabled={disabled}
+      />
+      {focusMissing && focus && (
+        <p className="text-xs text-muted-foreground">
+          {focus.expression} from line {focus.line} is no longer there, the program was edited after it was loaded
+        </p>
+      )}
+
+      <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-xs">
+        {SYNTAX_REFERENCE.map(([term, description]) => (
+          <div key={term} className="contents">
+            <dt className="font-mono">{term}</dt>
+            <dd className="text-muted-foreground">{description}</dd>
+          </div>
+        ))}
+      </dl>
+
+      {compiled.errors.length > 0 ? (
+        <ul className="text-sm text-[#9d6b53] dark:text-red-300 list-disc pl-5">
+          {compiled.errors.map((error) => (
+            <li key={error}>{error}</li>
+          ))}
+        </ul>
+      ) : (
+        <div className="space-y-2">
+          <div className="flex flex-wrap gap-2 text-xs">
+            {compiled.arrays.map((array) => {
+              const bytes = array.dimensions.reduce((product, size) => product * size, array.elementSize)
+              return (
+                <span key={array.name} className="rounded bg-[#f5e6d8] dark:bg-gray-900 px-2 py-1">
+                  <span className="font-mono">
+                    {array.name}[{array.dimensions.join("][")}]
+                  </span>{" "}
+                  <span className="text-muted-foreground">
+                    {array.elementSize}-byte elements at {array.base} to {array.base + bytes - 1},{" "}
+                    {ARRAY_LAYOUT_LABELS[array.layout].toLowerCase()}
+                  </span>
+                </span>
+              )
+            })}
+          </div>
+          <p className="text-sm text-muted-foreground">
+            {compiled.entries.length} accesses,{" "}
+            {compiled.entries.filter((entry) => entry.type === ACCESS_TYPES.WRITE).length} of them stores
+          </p>
+          <div className="flex flex-wrap gap-1 text-xs font-mono">
+            {compiled.entries.slice(0, PREVIEW_LENGTH).map((access, i) => (
+              <span
+                key={i}
+                className="rounded bg-[#e0d0c1] dark:bg-gray-700 px-2 py-0.5"
+                title={`${access.type === ACCESS_TYPES.WRITE ? "Store to" : "Load from"} address ${access.address}`}
+              >
+                {access.type === ACCESS_TYPES.WRITE ? "W " : ""}
+                {access.source?.element}
+              </span>
+            ))}
+            {compiled.entries.length > PREVIEW_LENGTH && (
+              <span className="px-2 py-0.5 text-muted-foreground">
+                +{compiled.entries.length - PREVIEW_LENGTH} more
+              </span>
+            )}
+          </div>
+        </div>
+      )}
+
+      <Button
+        type="button"
+        onClick={() => onLoad(compiled.entries)}
+        disabled={disabled || compiled.errors.length > 0 || compiled.entries.length === 0}
+      >
+        <ListOrdered className="h-4 w-4 mr-1" /> Load Loop Nest Trace
+      </Button>
+    </div>
+  )
+}
@@ -1,53 +1,72 @@
 "use client"
 
 import { motion } from "framer-motion"
+import { blockByteRange } from "@/lib/cache-engine"
 
 interface MainMemoryProps {
-  memory: Array<number | null>
-  animatingAddress: number | null
+  memory: Array<number | null> // Block addresses
+  blockSize: number
+  animatingBlock: number | null
+  writebackBlocks?: number[] // Blocks being written by a writeback or a store passing the caches
 }
 
-export function MainMemory({ memory, animatingAddress }: MainMemoryProps) {
-  // Filter out null values and sort by address
-  const activeAddresses = memory.filter((addr): addr is number => addr !== null)
+export function MainMemory({ memory, blockSize, animatingBlock, writebackBlocks = [] }: MainMemoryProps) {
+  // Filter out empty slots
+  const activeBlocks = memory.filter((block): block is number => block !== null)
 
   return (
     <div className="bg-[#f5e6d8] dark:bg-gray-900 p-4 rounded-lg shadow-inner">
       <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
-        {activeAddresses.length === 0 ? (
+        {activeBlocks.length === 0 ? (
           <div className="col-span-4 text-center p-8 text-muted-foreground">
             No addresses added yet. Enter an address to begin.
           </div>
         ) : (
-          activeAddresses.map((address) => (
-            <motion.div
-              key={`memory-${address}`}
-              className={`
-                p-3 rounded-lg border-2 flex items-center justify-between
-                bg-white dark:bg-gray-800
-                border-[#e0d0c1] dark:border-gray-600
-                ${animatingAddress === address ? "border-[#d4a373]" : ""}
-              `}
-              animate={
-                animatingAddress === address
-                  ? {
-                      scale: [1, 1.05, 1],
-                      borderColor: ["#d4a373", "#d4a373", "#d4a373"],
-                    }
-                  : {}
-              }
-              transition={{ duration: 0.5 }}
-              initial={{ opacity: 0, scale: 0.8 }}
-              animate={{ opacity: 1, scale: 1 }}
-              exit={{ opacity: 0, scale: 0.8 }}
-              layout
-            >
-              <div className="flex flex-col">
-                <span className="text-xs text-muted-foreground">Addr {address}</span>
-                <span className="font-mono font-bold text-sm">Data</span>
-              </div>
-            </motion.div>
-          ))
+          activeBlocks.map((block) => {
+            const range = blockByteRange(block, blockSize)
+            const isWrittenBack = writebackBlocks.includes(block)
+
+            return (
+              <motion.div
+                key={`memory-${block}`}
+                className={`
+                  p-3 rounded-lg border-2 flex items-center justify-between
+                  bg-white dark:bg-gray-800
+                  border-[#e0d0c1] dark:border-gray-600
+                  ${animatingBlock === block ? "border-[#d4a373]" : ""}
+                  ${isWrittenBack ? "border-[#bc6c25]" : ""}
+                `}
+                initial={{ opacity: 0, scale: 0.8 }}
+                animate={
+                  isWrittenBack
+                    ? {
+                        opacity: 1,
+                        y: [-12, 0],
+                        scale: [1, 1.08, 1],
+                        borderColor: ["#bc6c25", "#bc6c25", "#bc6c25"],
+                      }
+                    : animatingBlock === block
+                      ? {
+                          opacity: 1,
+                          scale: [1, 1.05, 1],
+                          borderColor: ["#d4a373", "#d4a373", "#d4a373"],
+                        }
+                      : { opacity: 1, scale: 1 }
+                }
+                transition={{ duration: 0.5 }}
+                exit={{ opacity: 0, scale: 0.8 }}
+                layout
+              >
+                <div className="flex flex-col">
+                  <span className="text-xs text-muted-foreground">Block {block}</span>
+                  <span className="font-mono font-bold text-sm">{isWrittenBack ? "Written" : "Data"}</span>
+                  <span className="text-xs text-muted-foreground font-mono">
+                    {range.start}–{range.end}
+                  </span>
+                </div>
+              </motion.div>
+            )
+          })
         )}
       </div>
     </div>
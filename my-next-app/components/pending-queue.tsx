@@ -0,0 +1,34 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { X } from "lucide-react"
+import type { QueuedAccess } from "@/hooks/use-cache-simulation"
+import { ACCESS_TYPE_LABELS } from "@/lib/cache-engine"
+
+interface PendingQueueProps {
+  queue: QueuedAccess[]
+  onClear: () => void
+}
+
+const MAX_SHOWN = 20
+
+// Accesses waiting for the current animation to finish, next one first
+export function PendingQueue({ queue, onClear }: PendingQueueProps) {
+  if (queue.length === 0) return null
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 rounded-md bg-[#f5e6d8] dark:bg-gray-900 p-2 text-xs">
+      <span className="font-medium">Queued ({queue.length}):</span>
+      {queue.slice(0, MAX_SHOWN).map((access) => (
+        <span key={access.id} className="font-mono rounded bg-[#e0d0c1] dark:bg-gray-700 px-2 py-0.5">
+          {ACCESS_TYPE_LABELS[access.type]} {access.address}
+          {access.position !== undefined && <span className="text-muted-foreground"> #{access.position + 1}</span>}
+        </span>
+      ))}
+      {queue.length > MAX_SHOWN && <span className="text-muted-foreground">+{queue.length - MAX_SHOWN} more</span>}
+      <Button type="button" size="sm" variant="outline" onClick={onClear} className="ml-auto h-7">
+        <X className="h-3 w-3 mr-1" /> Clear Queue
+      </Button>
+    </div>
+  )
+}
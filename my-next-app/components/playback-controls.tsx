@@ -0,0 +1,143 @@
+"use client"
+
+import type React from "react"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Slider } from "@/components/ui/slider"
+import { Pause, Play, SkipBack, SkipForward, StepBack, StepForward } from "lucide-react"
+
+interface PlaybackControlsProps {
+  position: number // Accesses shown so far
+  length: number // Accesses on the timeline, played or still to come
+  isPlaying: boolean
+  onPlay: () => void
+  onPause: () => void
+  onStepForward: () => void
+  onStepBack: () => void
+  onSeek: (position: number) => void
+  canStepForward: boolean // Steps can be queued while an access animates
+  disabled?: boolean // Set while accesses animate or wait, seeking needs the caches idle
+}
+
+// Plays the timeline of accesses like a video: play, pause, single steps both
+// ways, a scrubber and a jump to any access
+export function PlaybackControls({
+  position,
+  length,
+  isPlaying,
+  onPlay,
+  onPause,
+  onStepForward,
+  onStepBack,
+  onSeek,
+  canStepForward,
+  disabled,
+}: PlaybackControlsProps) {
+  const [scrubbing, setScrubbing] = useState<number | null>(null) // Position under the thumb while dragging
+  const [jumpDraft, setJumpDraft] = useState("")
+
+  const canSeek = !disabled && !isPlaying
+  const jumpTarget = Number(jumpDraft)
+  const isJumpValid = jumpDraft.trim() !== "" && Number.isInteger(jumpTarget) && jumpTarget >= 0 && jumpTarget <= length
+
+  const handleJump = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!isJumpValid) return
+    onSeek(jumpTarget)
+    setJumpDraft("")
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <Button
+          type="button"
+          variant="outline"
+          size="icon"
+          onClick={() => onSeek(0)}
+          disabled={!canSeek || position === 0}
+          aria-label="Back to the start"
+        >
+          <SkipBack className="h-4 w-4" />
+        </Button>
+        <Button
+          type="button"
+          variant="outline"
+          size="icon"
+          onClick={onStepBack}
+          disabled={!canSeek || position === 0}
+          aria-label="Step back"
+        >
+          <StepBack className="h-4 w-4" />
+        </Button>
+        {isPlaying ? (
+          <Button type="button" onClick={onPause} className="w-24">
+            <Pause className="h-4 w-4 mr-1" /> Pause
+          </Button>
+        ) : (
+          <Button type="button" onClick={onPlay} disabled={!canStepForward} className="w-24">
+            <Play className="h-4 w-4 mr-1" /> Play
+          </Button>
+        )}
+        <Button
+          type="button"
+          variant="outline"
+          size="icon"
+          onClick={onStepForward}
+          disabled={isPlaying || !canStepForward}
+          aria-label="Step forward"
+        >
+          <StepForward className="h-4 w-4" />
+        </Button>
+        <Button
+          type="button"
+          variant="outline"
+          size="icon"
+          onClick={() => onSeek(length)}
+          disabled={!canSeek || position >= length}
+          aria-label="Jump to the end"
+        >
+          <SkipForward className="h-4 w-4" />
+        </Button>
+
+        <span className="text-sm font-mono text-muted-foreground ml-2">
+          {scrubbing ?? position} / {length}
+        </span>
+
+        <form onSubmit={handleJump} className="flex gap-2 ml-auto">
+          <Input
+            type="number"
+            min="0"
+            max={length}
+            value={jumpDraft}
+            onChange={(e) => setJumpDraft(e.target.value)}
+            placeholder="Access #"
+            aria-label="Access to jump to"
+            className="w-28"
+            disabled={!canSeek}
+          />
+          <Button type="submit" variant="outline" disabled={!canSeek || !isJumpValid}>
+            Jump
+          </Button>
+        </form>
+      </div>
+
+      {/* Only seeks once the thumb is let go, each seek reruns the caches */}
+      <Slider
+        min={0}
+        max={Math.max(length, 1)}
+        step={1}
+        value={[scrubbing ?? position]}
+        onValueChange={([value]) => setScrubbing(value)}
+        onValueCommit={([value]) => {
+          setScrubbing(null)
+          onSeek(value)
+        }}
+        disabled={!canSeek || length === 0}
+        aria-label="Timeline position"
+      />
+    </div>
+  )
+}
@@ -0,0 +1,155 @@
+"use client"
+
+import type React from "react"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Check } from "lucide-react"
+import {
+  LFU_TIE_BREAK_LABELS,
+  MAX_PSEL_BITS,
+  MAX_RRPV_BITS,
+  REPLACEMENT_POLICY_LABELS,
+  validateReplacementOptions,
+  type LfuTieBreak,
+  type ReplacementOptions,
+  type ReplacementPolicy,
+} from "@/lib/cache-engine"
+
+interface ReplacementOptionsPanelProps {
+  policy: ReplacementPolicy
+  options: ReplacementOptions
+  onChange: (options: ReplacementOptions) => void
+  disabled?: boolean
+}
+
+type OptionKey = keyof ReplacementOptions
+type NumberKey = Exclude<OptionKey, "lfuTieBreak">
+
+const FIELDS: Record<NumberKey, { label: string; hint: string; step?: string }> = {
+  rrpvBits: { label: "RRPV Width (bits)", hint: `1 to ${MAX_RRPV_BITS}` },
+  bimodalProbability: { label: "Bimodal Probability", hint: "0 to 1, e.g. 0.03125 = 1/32", step: "any" },
+  leaderSets: { label: "Leader Sets", hint: "Per policy, at most half the sets" },
+  pselBits: { label: "PSEL Width (bits)", hint: `1 to ${MAX_PSEL_BITS}` },
+  nruClearInterval: { label: "Clear Interval (accesses)", hint: "Reference bits reset this often" },
+  lfuDecayInterval: { label: "Decay Interval (accesses)", hint: "Every count is halved this often" },
+}
+
+// Options each policy reads, policies not listed have nothing to tune
+const POLICY_FIELDS: Partial<Record<ReplacementPolicy, OptionKey[]>> = {
+  lfu: ["lfuTieBreak"],
+  "lfu-decay": ["lfuDecayInterval", "lfuTieBreak"],
+  "lfu-da": ["lfuTieBreak"],
+  nru: ["nruClearInterval"],
+  srrip: ["rrpvBits"],
+  brrip: ["rrpvBits", "bimodalProbability"],
+  drrip: ["rrpvBits", "bimodalProbability", "leaderSets", "pselBits"],
+  bip: ["bimodalProbability"],
+  dip: ["bimodalProbability", "leaderSets", "pselBits"],
+}
+
+const toDraft = (options: ReplacementOptions): Record<OptionKey, string> => ({
+  rrpvBits: String(options.rrpvBits),
+  bimodalProbability: String(options.bimodalProbability),
+  leaderSets: String(options.leaderSets),
+  pselBits: String(options.pselBits),
+  nruClearInterval: String(options.nruClearInterval),
+  lfuDecayInterval: String(options.lfuDecayInterval),
+  lfuTieBreak: options.lfuTieBreak,
+})
+
+export function ReplacementOptionsPanel({ policy, options, onChange, disabled }: ReplacementOptionsPanelProps) {
+  const [draft, setDraft] = useState(toDraft(options))
+
+  // Keep the form in sync if the applied options change elsewhere. Lower
+  // levels pass freshly merged objects, so compare them by value.
+  const optionsKey = JSON.stringify(options)
+  useEffect(() => {
+    setDraft(toDraft(options))
+  }, [optionsKey])
+
+  const fields = POLICY_FIELDS[policy]
+  if (!fields) return null
+
+  const parsed: ReplacementOptions = {
+    rrpvBits: Number(draft.rrpvBits),
+    bimodalProbability: Number(draft.bimodalProbability),
+    leaderSets: Number(draft.leaderSets),
+    pselBits: Number(draft.pselBits),
+    nruClearInterval: Number(draft.nruClearInterval),
+    lfuDecayInterval: Number(draft.lfuDecayInterval),
+    lfuTieBreak: draft.lfuTieBreak as LfuTieBreak,
+  }
+  const errors = validateReplacementOptions(parsed)
+  const isDirty = fields.some((key) => parsed[key] !== options[key])
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (errors.length === 0 && isDirty) {
+      onChange(parsed)
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <h4 className="text-sm font-medium">{REPLACEMENT_POLICY_LABELS[policy]} Options</h4>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        {fields.map((key) =>
+          key === "lfuTieBreak" ? (
+            <div key={key}>
+              <Label className="mb-2 block">Tie Break</Label>
+              <Select
+                value={draft.lfuTieBreak}
+                onValueChange={(value) => setDraft((prev) => ({ ...prev, lfuTieBreak: value }))}
+                disabled={disabled}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(LFU_TIE_BREAK_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground mt-1">Among lines with the lowest count</p>
+            </div>
+          ) : (
+            <div key={key}>
+              <Label htmlFor={`replacement-${key}`} className="mb-2 block">
+                {FIELDS[key].label}
+              </Label>
+              <Input
+                id={`replacement-${key}`}
+                type="number"
+                min="0"
+                step={FIELDS[key].step}
+                value={draft[key]}
+                onChange={(e) => setDraft((prev) => ({ ...prev, [key]: e.target.value }))}
+                disabled={disabled}
+              />
+              <p className="text-xs text-muted-foreground mt-1">{FIELDS[key].hint}</p>
+            </div>
+          ),
+        )}
+      </div>
+
+      {errors.length > 0 && (
+        <ul className="text-sm text-[#9d6b53] dark:text-red-300 list-disc pl-5">
+          {errors.map((error) => (
+            <li key={error}>{error}</li>
+          ))}
+        </ul>
+      )}
+
+      <Button type="submit" size="sm" disabled={disabled || errors.length > 0 || !isDirty}>
+        <Check className="h-4 w-4 mr-1" /> Apply Options
+      </Button>
+    </form>
+  )
+}
@@ -0,0 +1,70 @@
+"use client"
+
+import type React from "react"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Check, Dices } from "lucide-react"
+import { MAX_SEED, randomSeed, validateSeed } from "@/lib/cache-engine"
+
+interface SeedControlProps {
+  seed: number
+  onChange: (seed: number) => void
+  disabled?: boolean
+}
+
+// Seed of the caches' random number generators. The same seed replays the
+// same random choices, so runs can be repeated and compared.
+export function SeedControl({ seed, onChange, disabled }: SeedControlProps) {
+  const [draft, setDraft] = useState(String(seed))
+
+  useEffect(() => {
+    setDraft(String(seed))
+  }, [seed])
+
+  const parsed = Number(draft)
+  const errors = draft.trim() === "" ? ["Enter a seed"] : validateSeed(parsed)
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (errors.length === 0 && parsed !== seed) {
+      onChange(parsed)
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-1">
+      <Label htmlFor="random-seed" className="mb-2 block">
+        Random Seed
+      </Label>
+      <div className="flex gap-2">
+        <Input
+          id="random-seed"
+          type="number"
+          min="0"
+          max={MAX_SEED}
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          className="font-mono"
+          disabled={disabled}
+        />
+        <Button type="submit" variant="outline" disabled={disabled || errors.length > 0 || parsed === seed}>
+          <Check className="h-4 w-4 mr-1" /> Apply
+        </Button>
+        <Button type="button" variant="outline" onClick={() => onChange(randomSeed())} disabled={disabled}>
+          <Dices className="h-4 w-4 mr-1" /> New Seed
+        </Button>
+      </div>
+      {errors.length > 0 ? (
+        <p className="text-xs text-[#9d6b53] dark:text-red-300">{errors[0]}</p>
+      ) : (
+        <p className="text-xs text-muted-foreground">
+          Drives Random replacement, random tie-breaks and bimodal insertion. Changing it resets the caches. Saved with
+          the cache configuration in this browser.
+        </p>
+      )}
+    </form>
+  )
+}
@@ -0,0 +1,110 @@
+"use client"
+
+import type React from "react"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Sigma } from "lucide-react"
+import { MAX_SWEEP_SEEDS, seedRange, type SeedSweep } from "@/lib/cache-engine"
+
+interface SeedSweepPanelProps {
+  seed: number // First seed of the sweep
+  traceLength: number
+  onRun: (seeds: number[]) => Promise<SeedSweep>
+  disabled?: boolean
+}
+
+const percent = (rate: number) => `${(rate * 100).toFixed(2)}%`
+
+// Runs the loaded trace over consecutive seeds and shows how much the hit
+// rate depends on luck
+export function SeedSweepPanel({ seed, traceLength, onRun, disabled }: SeedSweepPanelProps) {
+  const [countInput, setCountInput] = useState("10")
+  const [isRunning, setIsRunning] = useState(false)
+  const [result, setResult] = useState<SeedSweep | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const count = Number(countInput)
+  const isValid = Number.isInteger(count) && count >= 1 && count <= MAX_SWEEP_SEEDS
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!isValid || traceLength === 0) return
+
+    setIsRunning(true)
+    setError(null)
+    try {
+      setResult(await onRun(seedRange(seed, count)))
+    } catch (err) {
+      setResult(null)
+      setError(err instanceof Error ? err.message : String(err))
+    } finally {
+      setIsRunning(false)
+    }
+  }
+
+  const summary = result && [
+    { label: "Mean Hit Rate", value: percent(result.mean) },
+    { label: "Variance", value: (result.variance * 10_000).toFixed(3), hint: "In squared percentage points" },
+    { label: "Std. Deviation", value: percent(Math.sqrt(result.variance)) },
+    { label: "Range", value: `${percent(result.min)} – ${percent(result.max)}` },
+  ]
+
+  return (
+    <div className="rounded-lg border border-[#e0d0c1] dark:border-gray-700 p-4 space-y-3">
+      <form onSubmit={handleSubmit} className="flex items-end gap-2">
+        <div>
+          <Label htmlFor="sweep-seeds" className="mb-2 block">
+            Seeds
+          </Label>
+          <Input
+            id="sweep-seeds"
+            type="number"
+            min="1"
+            max={MAX_SWEEP_SEEDS}
+            value={countInput}
+            onChange={(e) => setCountInput(e.target.value)}
+            className="w-24"
+            disabled={disabled || isRunning}
+          />
+        </div>
+        <Button type="submit" variant="outline" disabled={disabled || isRunning || !isValid || traceLength === 0}>
+          <Sigma className="h-4 w-4 mr-1" /> {isRunning ? "Running..." : "Run Over Seeds"}
+        </Button>
+        <p className="text-sm text-muted-foreground flex-1">
+          {isValid
+            ? `Runs all ${traceLength} accesses of the trace on fresh caches with seeds ${seed} to ${seedRange(seed, count)[count - 1]}`
+            : `Choose between 1 and ${MAX_SWEEP_SEEDS} seeds`}
+        </p>
+      </form>
+
+      {error && <p className="text-sm text-[#9d6b53] dark:text-red-300">{error}</p>}
+
+      {result && summary && (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            {summary.map(({ label, value, hint }) => (
+              <div key={label} className="rounded-md bg-[#f5e6d8] dark:bg-gray-900 p-2" title={hint}>
+                <div className="text-xs text-muted-foreground">{label}</div>
+                <div className="font-mono font-bold">{value}</div>
+              </div>
+            ))}
+          </div>
+          <div className="flex flex-wrap gap-1 text-xs font-mono">
+            {result.runs.map((run) => (
+              <span
+                key={run.seed}
+                className="rounded bg-[#e0d0c1] dark:bg-gray-700 px-2 py-0.5"
+                title={`${run.hits} hits`}
+              >
+                #{run.seed}: {percent(run.hitRate)}
+              </span>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,35 @@
+"use client"
+
+import { Label } from "@/components/ui/label"
+import { Slider } from "@/components/ui/slider"
+
+interface SpeedControlProps {
+  speed: number
+  onChange: (speed: number) => void
+}
+
+// Steps of the slider, from four times slower to eight times faster
+export const ANIMATION_SPEEDS = [0.25, 0.5, 0.75, 1, 1.5, 2, 3, 4, 6, 8]
+
+// How fast accesses animate. Takes effect from the next access.
+export function SpeedControl({ speed, onChange }: SpeedControlProps) {
+  const index = Math.max(0, ANIMATION_SPEEDS.indexOf(speed))
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label htmlFor="animation-speed">Animation Speed</Label>
+        <span className="text-sm font-mono text-muted-foreground">{speed}x</span>
+      </div>
+      <Slider
+        id="animation-speed"
+        min={0}
+        max={ANIMATION_SPEEDS.length - 1}
+        step={1}
+        value={[index]}
+        onValueChange={([value]) => onChange(ANIMATION_SPEEDS[value])}
+        aria-label="Animation speed"
+      />
+    </div>
+  )
+}
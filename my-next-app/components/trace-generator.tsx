@@ -0,0 +1,182 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { ListOrdered } from "lucide-react"
+import {
+  DEFAULT_GENERATOR_PARAMS,
+  PATTERN_PARAMS,
+  TRACE_PATTERNS,
+  TRACE_PATTERN_LABELS,
+  generateTrace,
+  validateGeneratorParams,
+  type TraceAccess,
+  type TraceGeneratorParams,
+  type TracePattern,
+} from "@/lib/cache-engine"
+
+interface TraceGeneratorProps {
+  maxAddress: number
+  blockSize: number // L1 block size, for counting distinct blocks in the preview
+  onLoad: (entries: TraceAccess[]) => void
+  disabled?: boolean
+}
+
+type NumberKey = Exclude<keyof TraceGeneratorParams, "pattern">
+
+const FIELDS: Record<NumberKey, { label: string; hint: string; step?: string }> = {
+  base: { label: "Base Address", hint: "First address touched" },
+  count: { label: "Count", hint: "Accesses to generate" },
+  stride: { label: "Stride (bytes)", hint: "Distance between elements" },
+  footprint: { label: "Footprint (elements)", hint: "Distinct elements in use" },
+  seed: { label: "Seed", hint: "Same seed, same trace" },
+  zipfExponent: { label: "Zipf Exponent", hint: "Higher is more skewed", step: "any" },
+}
+
+// What each pattern is good for demonstrating
+const PATTERN_HINTS: Record<TracePattern, string> = {
+  sequential: "Walks every byte, so each miss brings in a block of spatial locality",
+  strided: "With a stride of at least the block size, every access misses",
+  uniform: "No locality beyond the footprint fitting in the cache",
+  zipf: "Hot elements stay cached, frequency-based policies shine",
+  cyclic: "A footprint one block larger than the cache makes LRU miss every time",
+  "pointer-chase": "Visits the footprint in a random but fixed order, like a shuffled linked list",
+}
+
+const PREVIEW_LENGTH = 32
+const PLOT_POINTS = 400 // Longer traces are sampled for the plot
+
+const toDraft = (params: TraceGeneratorParams): Record<NumberKey, string> => ({
+  base: String(params.base),
+  count: String(params.count),
+  stride: String(params.stride),
+  footprint: String(params.footprint),
+  seed: String(params.seed),
+  zipfExponent: String(params.zipfExponent),
+})
+
+// Builds a synthetic trace from a pattern and previews it before loading
+export function TraceGenerator({ maxAddress, blockSize, onLoad, disabled }: TraceGeneratorProps) {
+  const [pattern, setPattern] = useState<TracePattern>(DEFAULT_GENERATOR_PARAMS.pattern)
+  const [draft, setDraft] = useState(toDraft(DEFAULT_GENERATOR_PARAMS))
+
+  const params: TraceGeneratorParams = {
+    pattern,
+    base: Number(draft.base),
+    count: Number(draft.count),
+    stride: Number(draft.stride),
+    footprint: Number(draft.footprint),
+    seed: Number(draft.seed),
+    zipfExponent: Number(draft.zipfExponent),
+  }
+  const errors = validateGeneratorParams(params, maxAddress)
+  const paramsKey = JSON.stringify(params)
+
+  const { trace, low, high, distinctBlocks } = useMemo(() => {
+    const trace = errors.length === 0 ? generateTrace(params) : []
+    const addresses = trace.map((access) => access.address)
+    return {
+      trace,
+      low: addresses.reduce((min, address) => Math.min(min, address), Infinity),
+      high: addresses.reduce((max, address) => Math.max(max, address), -Infinity),
+      distinctBlocks: new Set(addresses.map((address) => Math.floor(address / blockSize))).size,
+    }
+  }, [paramsKey, errors.length, blockSize])
+
+  const plotStep = Math.max(1, Math.ceil(trace.length / PLOT_POINTS))
+
+  const fields: NumberKey[] = ["base", "count", ...(PATTERN_PARAMS[pattern] as NumberKey[])]
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-2">
+        {Object.values(TRACE_PATTERNS).map((value) => (
+          <Button
+            key={value}
+            type="button"
+            size="sm"
+            variant={pattern === value ? "default" : "outline"}
+            onClick={() => setPattern(value)}
+            className="flex-1"
+            disabled={disabled}
+          >
+            {TRACE_PATTERN_LABELS[value]}
+          </Button>
+        ))}
+      </div>
+      <p className="text-sm text-muted-foreground">{PATTERN_HINTS[pattern]}</p>
+
+      <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-3">
+        {fields.map((key) => (
+          <div key={key}>
+            <Label htmlFor={`generator-${key}`} className="mb-2 block">
+              {FIELDS[key].label}
+            </Label>
+            <Input
+              id={`generator-${key}`}
+              type="number"
+              min="0"
+              step={FIELDS[key].step}
+              value={draft[key]}
+              onChange={(e) => setDraft((prev) => ({ ...prev, [key]: e.target.value }))}
+              disabled={disabled}
+            />
+            <p className="text-xs text-muted-foreground mt-1">{FIELDS[key].hint}</p>
+          </div>
+        ))}
+      </div>
+
+      {errors.length > 0 ? (
+        <ul className="text-sm text-[#9d6b53] dark:text-red-300 list-disc pl-5">
+          {errors.map((error) => (
+            <li key={error}>{error}</li>
+          ))}
+        </ul>
+      ) : (
+        <div className="space-y-2">
+          <p className="text-sm text-muted-foreground">
+            {trace.length} accesses over {distinctBlocks} distinct {blockSize}-byte blocks, addresses {low} to {high}
+          </p>
+
+          {/* Address over time, one dot per access */}
+          <svg
+            viewBox={`0 0 ${PLOT_POINTS} 100`}
+            preserveAspectRatio="none"
+            className="w-full h-24 rounded-md bg-[#f5e6d8] dark:bg-gray-900"
+            role="img"
+            aria-label="Addresses of the generated trace over time"
+          >
+            {trace
+              .filter((_, i) => i % plotStep === 0)
+              .map((access, i, sampled) => (
+                <circle
+                  key={i}
+                  cx={((i + 0.5) / sampled.length) * PLOT_POINTS}
+                  cy={high === low ? 50 : 95 - ((access.address - low) / (high - low)) * 90}
+                  r={1.5}
+                  className="fill-[#bc6c25] dark:fill-yellow-300"
+                />
+              ))}
+          </svg>
+
+          <div className="flex flex-wrap gap-1 text-xs font-mono">
+            {trace.slice(0, PREVIEW_LENGTH).map((access, i) => (
+              <span key={i} className="rounded bg-[#e0d0c1] dark:bg-gray-700 px-2 py-0.5">
+                {access.address}
+              </span>
+            ))}
+            {trace.length > PREVIEW_LENGTH && (
+              <span className="px-2 py-0.5 text-muted-foreground">+{trace.length - PREVIEW_LENGTH} more</span>
+            )}
+          </div>
+        </div>
+      )}
+
+      <Button type="button" onClick={() => onLoad(trace)} disabled={disabled || errors.length > 0}>
+        <ListOrdered className="h-4 w-4 mr-1" /> Load Generated Trace
+      </Button>
+    </div>
+  )
+}
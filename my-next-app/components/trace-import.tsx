@@ -0,0 +1,139 @@
+"use client"
+
+import type React from "react"
+
+import { useMemo, useRef, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { FileUp, ListOrdered } from "lucide-react"
+import {
+  MAX_TRACE_ACCESSES,
+  TRACE_FORMAT_LABELS,
+  detectTraceFormat,
+  parseTraceFile,
+  type TraceAccess,
+  type TraceFormat,
+} from "@/lib/cache-engine"
+
+interface TraceImportProps {
+  maxAddress: number
+  onLoad: (entries: TraceAccess[]) => void
+  disabled?: boolean
+}
+
+const AUTO_FORMAT = "auto"
+
+// Upload or drop a Dinero, Lackey or CSV trace file, check it and load it as
+// the current trace
+export function TraceImport({ maxAddress, onLoad, disabled }: TraceImportProps) {
+  const [file, setFile] = useState<{ name: string; text: string } | null>(null)
+  const [format, setFormat] = useState<TraceFormat | typeof AUTO_FORMAT>(AUTO_FORMAT)
+  const [fold, setFold] = useState(true)
+  const [isDragging, setIsDragging] = useState(false)
+  const inputRef = useRef<HTMLInputElement>(null)
+
+  const effectiveFormat = file && format === AUTO_FORMAT ? detectTraceFormat(file.text, file.name) : format
+
+  // Files can be large, so only parse again when something changed
+  const parsed = useMemo(
+    () =>
+      file && effectiveFormat !== AUTO_FORMAT ? parseTraceFile(file.text, effectiveFormat, { maxAddress, fold }) : null,
+    [file, effectiveFormat, maxAddress, fold],
+  )
+
+  const readFile = async (selected: File | undefined) => {
+    if (!selected) return
+    setFile({ name: selected.name, text: await selected.text() })
+  }
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault()
+    setIsDragging(false)
+    if (!disabled) readFile(e.dataTransfer.files[0])
+  }
+
+  return (
+    <div className="space-y-3">
+      <div
+        onDragOver={(e) => {
+          e.preventDefault()
+          setIsDragging(true)
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        className={`rounded-lg border-2 border-dashed p-4 flex flex-wrap items-center gap-3 ${
+          isDragging ? "border-[#bc6c25] bg-[#f5e6d8] dark:bg-gray-900" : "border-[#e0d0c1] dark:border-gray-700"
+        }`}
+      >
+        <input
+          ref={inputRef}
+          type="file"
+          accept=".din,.csv,.txt,.out,.log,text/*"
+          className="hidden"
+          onChange={(e) => {
+            readFile(e.target.files?.[0])
+            e.target.value = ""
+          }}
+        />
+        <Button type="button" variant="outline" onClick={() => inputRef.current?.click()} disabled={disabled}>
+          <FileUp className="h-4 w-4 mr-1" /> Choose Trace File
+        </Button>
+        <span className="text-sm text-muted-foreground flex-1">
+          {file ? file.name : "or drop a Dinero .din, Valgrind Lackey or CSV file here"}
+        </span>
+
+        <div className="w-48">
+          <Select value={format} onValueChange={(value) => setFormat(value as TraceFormat | typeof AUTO_FORMAT)}>
+            <SelectTrigger aria-label="Trace format">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={AUTO_FORMAT}>
+                {file && format === AUTO_FORMAT
+                  ? `Auto: ${TRACE_FORMAT_LABELS[effectiveFormat as TraceFormat]}`
+                  : "Detect Format"}
+              </SelectItem>
+              {Object.entries(TRACE_FORMAT_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex items-center gap-2">
+          <Checkbox id="trace-fold" checked={fold} onCheckedChange={(checked) => setFold(checked === true)} />
+          <Label htmlFor="trace-fold" className="text-sm font-normal">
+            Wrap addresses above {maxAddress}
+          </Label>
+        </div>
+      </div>
+
+      {parsed && (
+        <div className="space-y-2">
+          {parsed.errors.length > 0 ? (
+            <ul className="text-sm text-[#9d6b53] dark:text-red-300 list-disc pl-5 max-h-40 overflow-y-auto">
+              {parsed.errors.map((error) => (
+                <li key={error}>{error}</li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              {parsed.entries.length} accesses ready
+              {parsed.truncated && `, only the first ${MAX_TRACE_ACCESSES} of the file are kept`}
+            </p>
+          )}
+          <Button
+            type="button"
+            onClick={() => onLoad(parsed.entries)}
+            disabled={disabled || parsed.errors.length > 0 || parsed.entries.length === 0}
+          >
+            <ListOrdered className="h-4 w-4 mr-1" /> Load File Trace
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
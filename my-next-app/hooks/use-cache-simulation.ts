@@ -0,0 +1,697 @@
+"use client"
+
+import { useEffect, useMemo, useRef, useState } from "react"
+import { useToast } from "@/hooks/use-toast"
+import {
+  ACCESS_TYPES,
+  ACCESS_TYPE_LABELS,
+  DEFAULT_SEED,
+  INCLUSION_POLICIES,
+  MAIN_MEMORY_SIZE,
+  addressComponents,
+  deriveGeometry,
+  describeSideEffect,
+  emptyTraffic,
+  levelName,
+  type AccessType,
+  type BackgroundProgress,
+  type CacheConfig,
+  type CacheLine,
+  type CacheStatsSnapshot,
+  type DuelSnapshot,
+  type HierarchyAccessResult,
+  type HierarchyRunner,
+  type HierarchySnapshot,
+  type InclusionPolicy,
+  type MemoryTrafficSnapshot,
+  type MissType,
+  type PolicyListsSnapshot,
+  type TimelineAccess,
+  type TraceAccess,
+  type TraceSource,
+} from "@/lib/cache-engine"
+import { createRunner } from "@/lib/cache-engine/sandbox"
+import { startBackgroundRun } from "@/lib/cache-engine/background-runner"
+import type { BackgroundSource } from "@/lib/cache-engine/background-protocol"
+
+// History entry type
+export interface HistoryEntry {
+  address: number
+  position?: number // Index in the loaded trace, absent for typed-in addresses
+  source?: TraceSource // Loop-nest expression that made the access
+  type: AccessType
+  blockAddress: number
+  tag: number
+  index: number
+  offset: number
+  result: "hit" | "miss"
+  missType?: MissType
+  filled: boolean // Whether the block was brought into L1, false for stores that wrote around it
+  servedBy: string // Level that supplied the data, e.g. "L2" or "Memory"
+  sideEffects: string[] // Lines invalidated or moved in other levels
+  evicted: number | null // Block L1 evicted to make room
+  evictedNextUse?: number // OPT only: trace position of the evicted block's next access
+  timestamp: number
+}
+
+// One played access and what was shown after it. Stepping back restores
+// these, while the caches themselves are rebuilt by the runner.
+interface TimelineFrame {
+  access: TimelineAccess
+  entry: HistoryEntry
+  result: HierarchyAccessResult
+  mainMemory: Array<number | null>
+  tracePosition: number // Next trace access once this one has run
+}
+
+// An access waiting for the ones before it to finish animating
+export interface QueuedAccess extends TimelineAccess {
+  id: number
+}
+
+interface UseCacheSimulationOptions {
+  levels: CacheConfig[] // L1 first
+  inclusion?: InclusionPolicy
+  seed?: number // Seeds each level's random number generator
+  showToasts?: boolean
+  speed?: number // Animation speed, 2 plays every access twice as fast
+}
+
+// How far a run to the end has got
+export interface BatchProgress {
+  done: number
+  total: number
+}
+
+const MISS_TITLES: Record<MissType, string> = {
+  compulsory: "Compulsory Miss!",
+  capacity: "Capacity Miss!",
+  conflict: "Conflict Miss!",
+}
+
+// How long each phase of an access is shown. Hits and misses wait for their
+// transition to report that it finished, the durations are the fallback when
+// nothing is drawn for it.
+const HIT_MS = 1000
+const MISS_MS = 1500
+const SETTLE_MS = 500 // The updated caches stay highlighted this long
+const TRANSITION_GRACE_MS = 1000
+
+const delay = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms))
+
+const sameAccess = (a: TimelineAccess | undefined, b: TimelineAccess) =>
+  a?.address === b.address && a.type === b.type && a.position === b.position
+
+const emptyMainMemory = (): Array<number | null> => Array(MAIN_MEMORY_SIZE).fill(null)
+
+// Keep the most recently touched blocks visible in main memory, dropping
+// blocks L1 doesn't hold first
+function placeInMainMemory(memory: Array<number | null>, blockAddresses: number[], residentBlocks: Set<number>) {
+  const newMainMemory = [...memory]
+  for (const blockAddress of blockAddresses) {
+    if (newMainMemory.includes(blockAddress)) continue
+
+    // If we've reached the limit, remove the oldest entry
+    if (newMainMemory.filter((addr) => addr !== null).length >= MAIN_MEMORY_SIZE) {
+      // Find the first non-null entry that's not in L1
+      const indexToRemove = newMainMemory.findIndex((addr) => addr !== null && !residentBlocks.has(addr))
+
+      if (indexToRemove !== -1) {
+        newMainMemory[indexToRemove] = null
+      } else {
+        // If all addresses are in cache, just remove the first one
+        const firstNonNullIndex = newMainMemory.findIndex((addr) => addr !== null)
+        if (firstNonNullIndex !== -1) {
+          newMainMemory[firstNonNullIndex] = null
+        }
+      }
+    }
+
+    // Find an empty slot
+    const emptyIndex = newMainMemory.findIndex((addr) => addr === null)
+    if (emptyIndex !== -1) {
+      newMainMemory[emptyIndex] = blockAddress
+    } else {
+      // If no empty slot, add to the end
+      newMainMemory.push(blockAddress)
+    }
+  }
+  return newMainMemory
+}
+
+// Follows L1's contents through an access, for accesses run without snapshots
+function trackL1Blocks(residentBlocks: Set<number>, access: HierarchyAccessResult) {
+  const first = access.levels[0]
+  if (first.victim) residentBlocks.delete(first.victim.blockAddress)
+  if (first.result === "hit" || first.filled) residentBlocks.add(first.blockAddress)
+  for (const effect of access.sideEffects) {
+    if (effect.kind === "invalidated" && effect.level === 0) residentBlocks.delete(effect.blockAddress)
+    if (effect.kind === "moved" && effect.from === 0) residentBlocks.delete(effect.blockAddress)
+    if (effect.kind === "moved" && effect.to === 0) residentBlocks.add(effect.blockAddress)
+  }
+}
+
+// Drives a CacheHierarchy and mirrors its state into React, delaying each
+// update so the hit/miss animations can play before the caches change. The
+// hierarchy sits behind a runner, in a worker when it runs custom policies.
+// Every access is kept on a timeline that can be stepped back and forth.
+export function useCacheSimulation({
+  levels,
+  inclusion = INCLUSION_POLICIES.NINE,
+  seed = DEFAULT_SEED,
+  showToasts = true,
+  speed = 1,
+}: UseCacheSimulationOptions) {
+  const { toast } = useToast()
+  const runnerRef = useRef<HierarchyRunner | null>(null)
+  const [caches, setCaches] = useState<CacheLine[][]>([])
+  const [mainMemory, setMainMemory] = useState<Array<number | null>>([])
+  const [levelStats, setLevelStats] = useState<CacheStatsSnapshot[]>([])
+  const [memoryTraffic, setMemoryTraffic] = useState<MemoryTrafficSnapshot>(emptyTraffic())
+  const [animatingAddress, setAnimatingAddress] = useState<number | null>(null)
+  const [currentAccess, setCurrentAccess] = useState<HierarchyAccessResult | null>(null)
+  const [isAnimating, setIsAnimating] = useState(false)
+  const [animationType, setAnimationType] = useState<"hit" | "miss" | null>(null)
+  const [writebackBlocks, setWritebackBlocks] = useState<number[]>([]) // Main memory blocks being written
+  const [nextUses, setNextUses] = useState<number[][]>([]) // Per level and line, for OPT
+  const [policyBits, setPolicyBits] = useState<number[][][]>([]) // Per level and set, for pseudo-LRU
+  const [policyLists, setPolicyLists] = useState<Array<PolicyListsSnapshot | null>[]>([]) // Per level and set, for SLRU, 2Q and ARC
+  const [clockHands, setClockHands] = useState<number[][]>([]) // Per level and set, for CLOCK
+  const [agingCountdowns, setAgingCountdowns] = useState<Array<number | null>>([]) // Per level, accesses until NRU clears or LFU decays
+  const [duelStates, setDuelStates] = useState<Array<DuelSnapshot | null>>([]) // Per level, for set dueling
+
+  // A trace loaded up front lets OPT look ahead; accesses step through it in order
+  const futureRef = useRef<number[] | null>(null)
+  const [trace, setTrace] = useState<TraceAccess[]>([])
+
+  const [timeline, setTimeline] = useState<TimelineFrame[]>([])
+  const [timelinePosition, setTimelinePosition] = useState(0) // Frames shown, later ones were stepped back over
+  const [isPlaying, setIsPlaying] = useState(false)
+
+  // Accesses submitted while another one animates wait here, in order
+  const [queue, setQueue] = useState<QueuedAccess[]>([])
+  const queueIdRef = useRef(0)
+
+  // The visualizer reports when the hit or miss transition with this id is done
+  const [transitionId, setTransitionId] = useState(0)
+  const transitionRef = useRef<{ id: number; finish: () => void } | null>(null)
+
+  const [batchProgress, setBatchProgress] = useState<BatchProgress | null>(null)
+  const stopBatchRef = useRef(false)
+
+  const tracePosition = timelinePosition > 0 ? timeline[timelinePosition - 1].tracePosition : 0
+  // Accesses played so far, then the rest of the trace
+  const timelineLength =
+    timeline.length + trace.length - (timeline.length > 0 ? timeline[timeline.length - 1].tracePosition : 0)
+  const history = useMemo(
+    () =>
+      timeline
+        .slice(0, timelinePosition)
+        .map((frame) => frame.entry)
+        .reverse(),
+    [timeline, timelinePosition],
+  )
+
+  // Refs for animation positioning, the flying block always targets L1
+  const cacheBlockRefs = useRef<(HTMLDivElement | null)[]>([])
+  const [targetPosition, setTargetPosition] = useState({ x: 0, y: 0 })
+
+  const layouts = levels.map((level) => deriveGeometry(level, level.mappingType))
+
+  // Configs arrive as fresh arrays on every render, so compare them by value
+  const levelsKey = JSON.stringify({ levels, inclusion, seed })
+
+  // Initialize caches and main memory
+  useEffect(() => {
+    resetCache()
+  }, [levelsKey])
+
+  // Stop the policy sandbox when the component goes away
+  useEffect(() => () => runnerRef.current?.dispose(), [])
+
+  // Runs queued accesses one at a time, each once the previous has finished
+  useEffect(() => {
+    if (isAnimating || queue.length === 0) return
+    const [next, ...rest] = queue
+    setQueue(rest)
+    processAddress(next.address, next.type, next.position)
+  }, [queue, isAnimating])
+
+  // Playing queues the next step whenever the queue runs dry
+  useEffect(() => {
+    if (!isPlaying || isAnimating || queue.length > 0) return
+    const next = nextStep()
+    if (next) enqueue([next])
+    else setIsPlaying(false)
+  }, [isPlaying, isAnimating, queue, timelinePosition, timelineLength])
+
+  // Errors from custom policies are shown even when other toasts are off
+  const reportError = (error: unknown) => {
+    toast({
+      title: "Simulation Error",
+      description: error instanceof Error ? error.message : String(error),
+      variant: "destructive",
+    })
+  }
+
+  const applySnapshot = (snapshot: HierarchySnapshot) => {
+    setCaches(snapshot.lines)
+    setNextUses(snapshot.nextUses)
+    setPolicyBits(snapshot.policyBits)
+    setPolicyLists(snapshot.policyLists)
+    setClockHands(snapshot.clockHands)
+    setAgingCountdowns(snapshot.agingCountdowns)
+    setDuelStates(snapshot.duels)
+    setLevelStats(snapshot.stats)
+    setMemoryTraffic(snapshot.traffic)
+  }
+
+  const resetCache = async () => {
+    runnerRef.current?.dispose()
+    const runner = createRunner(levels, { inclusion, seed })
+    runnerRef.current = runner
+
+    setTimeline([])
+    setTimelinePosition(0)
+    setIsPlaying(false)
+    setQueue([])
+    stopBatchRef.current = true
+    setMainMemory(emptyMainMemory())
+    setCurrentAccess(null)
+
+    // An access animating for the old runner stops where it is
+    transitionRef.current?.finish()
+    setAnimatingAddress(null)
+    setAnimationType(null)
+    setWritebackBlocks([])
+    setIsAnimating(false)
+
+    try {
+      await runner.setFuture(futureRef.current)
+      const snapshot = await runner.snapshot()
+      // Ignore a runner that was replaced while it started up
+      if (runnerRef.current === runner) applySnapshot(snapshot)
+    } catch (error) {
+      if (runnerRef.current === runner) reportError(error)
+    }
+  }
+
+  // Replaces the trace and starts it from the beginning with empty caches
+  const loadTrace = (entries: TraceAccess[]) => {
+    futureRef.current = entries.length > 0 ? entries.map((entry) => entry.address) : null
+    setTrace(entries)
+    resetCache()
+  }
+
+  // Runs the loaded trace once per seed, leaving the displayed caches alone
+  const runSeedSweep = (seeds: number[]) => {
+    const runner = runnerRef.current
+    if (!runner) return Promise.reject(new Error("The caches aren't ready yet"))
+    return runner.sweep(trace, seeds)
+  }
+
+  // Runs the loaded trace or a trace file on fresh caches in a worker of its
+  // own, leaving the caches on screen as they are
+  const runInBackground = (
+    source: BackgroundSource,
+    passes: number,
+    onProgress: (progress: BackgroundProgress) => void,
+  ) => startBackgroundRun(levels, { inclusion, seed }, source, passes, onProgress)
+
+  const enqueue = (accesses: TimelineAccess[]) => {
+    setQueue((prev) => [...prev, ...accesses.map((access) => ({ ...access, id: queueIdRef.current++ }))])
+  }
+
+  const clearQueue = () => setQueue([])
+
+  // The access a step forward runs once everything queued has run: the next
+  // recorded frame after stepping back, otherwise the next trace access
+  const nextStep = (): TimelineAccess | null => {
+    let index = timelinePosition
+    let isReplaying = true // Queued accesses other than the recorded ones drop the frames after them
+    let position = tracePosition
+    for (const queued of queue) {
+      isReplaying = isReplaying && sameAccess(timeline[index]?.access, queued)
+      index += 1
+      if (queued.position !== undefined) position = queued.position + 1
+    }
+
+    if (isReplaying && timeline[index]) return timeline[index].access
+    return position < trace.length ? { ...trace[position], position } : null
+  }
+
+  const stepForward = () => {
+    const next = nextStep()
+    if (next) enqueue([next])
+  }
+
+  const stepBack = () => seekTo(timelinePosition - 1)
+
+  // Shows the timeline just after its first `position` accesses, without
+  // animating. Going back rewinds the runner; going forward runs the accesses in
+  // one go and records frames for any not played before.
+  const seekTo = async (position: number) => {
+    const runner = runnerRef.current
+    const target = Math.max(0, Math.min(position, timelineLength))
+    if (!runner || isAnimating || queue.length > 0 || target === timelinePosition) return
+
+    // Keeps input out while the runner catches up
+    setIsAnimating(true)
+    try {
+      let frames = timeline
+      let snapshot: HierarchySnapshot
+      if (target < timelinePosition) {
+        snapshot = await runner.rewind(timeline.slice(0, target).map((frame) => frame.access))
+      } else {
+        frames = [...timeline]
+        const residentBlocks = new Set((caches[0] ?? []).flatMap((line) => line.blockAddress ?? []))
+        snapshot = (await runAhead(runner, frames, timelinePosition, target, mainMemory, residentBlocks)).snapshot
+      }
+      if (runnerRef.current !== runner) return
+
+      applySnapshot(snapshot)
+      setTimeline(frames)
+      setTimelinePosition(target)
+      setMainMemory(frames[target - 1]?.mainMemory ?? emptyMainMemory())
+      setCurrentAccess(frames[target - 1]?.result ?? null)
+      setAnimatingAddress(null)
+      setAnimationType(null)
+      setWritebackBlocks([])
+    } catch (error) {
+      if (runnerRef.current === runner) reportError(error)
+      setIsPlaying(false)
+    } finally {
+      setIsAnimating(false)
+    }
+  }
+
+  // Runs the timeline from `from` up to `to` in one request, appending frames
+  // for accesses not played before to `frames`. Returns the caches after the
+  // last access and main memory as it was drawn then.
+  const runAhead = async (
+    runner: HierarchyRunner,
+    frames: TimelineFrame[],
+    from: number,
+    to: number,
+    memory: Array<number | null>,
+    residentBlocks: Set<number>,
+  ) => {
+    const replayed = frames.slice(from, to).map((frame) => frame.access)
+    const nextTracePosition = frames.length > 0 ? frames[frames.length - 1].tracePosition : 0
+    const fresh: TimelineAccess[] = trace
+      .slice(nextTracePosition, nextTracePosition + to - from - replayed.length)
+      .map((entry, i) => ({ ...entry, position: nextTracePosition + i }))
+
+    const run = await runner.run([...replayed, ...fresh])
+    run.steps.forEach((step, i) => {
+      const first = step.access.levels[0]
+      const access = fresh[i - replayed.length]
+      if (access) {
+        const writtenBlocks = toMemoryBlocks(step.memoryWrites)
+        memory = placeInMainMemory(memory, [first.blockAddress, ...writtenBlocks], residentBlocks)
+        frames.push({
+          access,
+          entry: toHistoryEntry(step.access, access.position),
+          result: step.access,
+          mainMemory: memory,
+          tracePosition: (access.position ?? 0) + 1,
+        })
+      } else {
+        memory = frames[from + i].mainMemory
+      }
+      trackL1Blocks(residentBlocks, step.access)
+    })
+    return { snapshot: run.snapshot, memory }
+  }
+
+  // Runs the rest of the timeline without animations or toasts. The caches,
+  // stats and main memory are redrawn every `refreshEvery` accesses, or only at
+  // the end without one; the history catches up once the run stops.
+  const runToEnd = async (refreshEvery: number | null) => {
+    const runner = runnerRef.current
+    const start = timelinePosition
+    const end = timelineLength
+    if (!runner || isAnimating || queue.length > 0 || start >= end) return
+
+    setIsPlaying(false)
+    setIsAnimating(true)
+    setBatchProgress({ done: 0, total: end - start })
+    stopBatchRef.current = false
+
+    const frames = [...timeline]
+    const residentBlocks = new Set((caches[0] ?? []).flatMap((line) => line.blockAddress ?? []))
+    let memory = mainMemory
+    let position = start
+    try {
+      while (position < end && !stopBatchRef.current) {
+        const to = refreshEvery ? Math.min(end, position + refreshEvery) : end
+        const run = await runAhead(runner, frames, position, to, memory, residentBlocks)
+        if (runnerRef.current !== runner) return
+
+        memory = run.memory
+        position = to
+        applySnapshot(run.snapshot)
+        setMainMemory(memory)
+        setBatchProgress({ done: position - start, total: end - start })
+        // Give the browser a chance to draw before the next chunk
+        await delay(0)
+      }
+
+      if (runnerRef.current !== runner) return
+      setTimeline(frames)
+      setTimelinePosition(position)
+      setCurrentAccess(frames[position - 1]?.result ?? null)
+    } catch (error) {
+      if (runnerRef.current === runner) reportError(error)
+    } finally {
+      setBatchProgress(null)
+      setIsAnimating(false)
+    }
+  }
+
+  // The run stops after the chunk in progress
+  const stopBatch = () => {
+    stopBatchRef.current = true
+  }
+
+  const getAddressComponents = (address: number) => addressComponents(address, layouts[0])
+
+  // Block holding the animated address at each level, used for highlighting
+  const animatingBlocks = levels.map((level) =>
+    animatingAddress !== null ? Math.floor(animatingAddress / level.blockSize) : null,
+  )
+
+  // Main memory is drawn in L1-sized blocks
+  const toMemoryBlocks = (memoryWrites: number[]) => [
+    ...new Set(memoryWrites.map((byte) => Math.floor(byte / levels[0].blockSize))),
+  ]
+
+  const toHistoryEntry = (access: HierarchyAccessResult, position?: number): HistoryEntry => {
+    const first = access.levels[0]
+    return {
+      address: access.address,
+      position,
+      source: position !== undefined ? trace[position]?.source : undefined,
+      type: access.type,
+      blockAddress: first.blockAddress,
+      tag: first.tag,
+      index: first.index,
+      offset: first.offset,
+      result: first.result,
+      missType: first.missType,
+      filled: first.filled,
+      servedBy: levelName(access.servedBy, levels.length),
+      sideEffects: access.sideEffects.map((effect) => describeSideEffect(effect, levels.length)),
+      evicted: first.victim?.blockAddress ?? null,
+      evictedNextUse: first.victim?.nextUse,
+      timestamp: Date.now(),
+    }
+  }
+
+  const notify = (access: HierarchyAccessResult, writtenBlocks: number[]) => {
+    if (!showToasts) return
+
+    const first = access.levels[0]
+    const operation = `${ACCESS_TYPE_LABELS[access.type]} of address ${access.address}`
+    const writeback = writtenBlocks.length > 0 ? `, block ${writtenBlocks.join(", ")} written to memory` : ""
+
+    if (first.result === "hit") {
+      toast({
+        title: "Cache Hit!",
+        description: `${operation} found in cache at index ${first.lineIndex}${writeback}`,
+        variant: "default",
+      })
+    } else if (!first.filled) {
+      toast({
+        title: MISS_TITLES[first.missType ?? "compulsory"],
+        description: `${operation} written around L1 without a fill${writeback}`,
+        variant: "default",
+      })
+    } else {
+      toast({
+        title: MISS_TITLES[first.missType ?? "compulsory"],
+        description:
+          levels.length > 1
+            ? `${operation} served by ${levelName(access.servedBy, levels.length)} and placed in L1 at index ${first.lineIndex}${writeback}`
+            : `${operation} placed in cache at index ${first.lineIndex}${writeback}`,
+        variant: "default",
+      })
+    }
+  }
+
+  // Resolves once the visualizer calls completeTransition with this id, or
+  // after `fallbackMs` in case the transition never gets drawn
+  const waitForTransition = (id: number, fallbackMs: number) =>
+    new Promise<void>((resolve) => {
+      const finish = () => {
+        clearTimeout(timer)
+        if (transitionRef.current?.id === id) transitionRef.current = null
+        resolve()
+      }
+      const timer = setTimeout(finish, fallbackMs)
+      transitionRef.current = { id, finish }
+    })
+
+  // Called from framer-motion's onAnimationComplete. Exit animations of
+  // earlier transitions carry their own id and are ignored.
+  const completeTransition = (id: number) => {
+    if (transitionRef.current?.id === id) transitionRef.current.finish()
+  }
+
+  // Runs an access and resolves once its animation has played out and the
+  // caches show the result
+  const processAddress = async (address: number, type: AccessType = ACCESS_TYPES.READ, position?: number) => {
+    const runner = runnerRef.current
+    if (!runner) return
+
+    const frameIndex = timelinePosition
+    setIsAnimating(true)
+
+    // Run the access now, but only show its effect once the animation lands
+    let step
+    try {
+      step = await runner.step(address, type, position)
+    } catch (error) {
+      if (runnerRef.current === runner) reportError(error)
+      setIsPlaying(false)
+      setIsAnimating(false)
+      return
+    }
+    // The caches were reset while the access ran
+    if (runnerRef.current !== runner) {
+      setIsAnimating(false)
+      return
+    }
+
+    const { access, memoryWrites, snapshot } = step
+    const first = access.levels[0]
+    const writtenBlocks = toMemoryBlocks(memoryWrites)
+
+    const residentBlocks = new Set((caches[0] ?? []).flatMap((line) => line.blockAddress ?? []))
+    const newMainMemory = placeInMainMemory(mainMemory, [first.blockAddress, ...writtenBlocks], residentBlocks)
+    setMainMemory(newMainMemory)
+
+    // Set the animating address for visual feedback
+    setAnimatingAddress(address)
+    setCurrentAccess(access)
+
+    // Calculate target position for animation
+    setTimeout(() => {
+      const targetElement = cacheBlockRefs.current[first.lineIndex]
+      if (targetElement) {
+        const rect = targetElement.getBoundingClientRect()
+        setTargetPosition({
+          x: rect.left + rect.width / 2,
+          y: rect.top + rect.height / 2,
+        })
+      }
+    }, 100)
+
+    // Stores that write around L1 have no line to fly into
+    const animation = first.result === "miss" && !first.filled ? null : first.result
+    const id = transitionId + 1
+    setTransitionId(id)
+    setAnimationType(animation)
+
+    // Replaying the frame that was next keeps the frames after it, any other
+    // access replaces them
+    const frame: TimelineFrame = {
+      access: { address, type, position },
+      entry: toHistoryEntry(access, position),
+      result: access,
+      mainMemory: newMainMemory,
+      tracePosition: position !== undefined ? position + 1 : tracePosition,
+    }
+    setTimeline((prev) => {
+      const next = prev[frameIndex]?.access
+      const isReplay = next?.address === address && next.type === type && next.position === position
+      return [...prev.slice(0, frameIndex), frame, ...(isReplay ? prev.slice(frameIndex + 1) : [])]
+    })
+    setTimelinePosition(frameIndex + 1)
+
+    // Only update the caches once the animation has landed
+    const duration = (first.result === "hit" ? HIT_MS : MISS_MS) / speed
+    await (animation ? waitForTransition(id, duration + TRANSITION_GRACE_MS / speed) : delay(duration))
+    if (runnerRef.current !== runner) return
+
+    applySnapshot(snapshot)
+    setWritebackBlocks(writtenBlocks)
+    notify(access, writtenBlocks)
+
+    await delay(SETTLE_MS / speed)
+    if (runnerRef.current !== runner) return
+
+    setAnimatingAddress(null)
+    setAnimationType(null)
+    setWritebackBlocks([])
+    setIsAnimating(false)
+  }
+
+  return {
+    layouts,
+    caches,
+    levelStats,
+    memoryTraffic,
+    mainMemory,
+    history,
+    nextUses,
+    policyBits,
+    policyLists,
+    clockHands,
+    agingCountdowns,
+    duelStates,
+    trace,
+    tracePosition,
+    timelinePosition,
+    timelineLength,
+    isPlaying,
+    animatingAddress,
+    animatingBlocks,
+    writebackBlocks,
+    currentAccess,
+    animationType,
+    transitionId,
+    isAnimating,
+    targetPosition,
+    cacheBlockRefs,
+    getAddressComponents,
+    processAddress,
+    completeTransition,
+    pendingAccesses: queue,
+    enqueue,
+    clearQueue,
+    canStepForward: nextStep() !== null,
+    loadTrace,
+    runToEnd,
+    stopBatch,
+    batchProgress,
+    stepForward,
+    stepBack,
+    seekTo,
+    play: () => setIsPlaying(true),
+    pause: () => setIsPlaying(false),
+    runSeedSweep,
+    runInBackground,
+    resetCache,
+  }
+}
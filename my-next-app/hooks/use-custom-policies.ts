@@ -0,0 +1,49 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import type { CustomPolicySource } from "@/lib/cache-engine"
+
+const STORAGE_KEY = "cache-visualizer.custom-policies"
+
+const isPolicySource = (value: unknown): value is CustomPolicySource =>
+  typeof value === "object" &&
+  value !== null &&
+  ["id", "name", "source"].every((key) => typeof (value as Record<string, unknown>)[key] === "string")
+
+// Policies saved in the browser. Only call it after the first render, storage
+// doesn't exist on the server.
+export function readStoredPolicies(): CustomPolicySource[] {
+  try {
+    const stored: unknown = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "[]")
+    return Array.isArray(stored) ? stored.filter(isPolicySource) : []
+  } catch {
+    return []
+  }
+}
+
+// Custom replacement policies saved in the browser, shared by every page
+export function useCustomPolicies() {
+  const [policies, setPolicies] = useState<CustomPolicySource[]>([])
+
+  // Storage only exists in the browser, so read it after the first render
+  useEffect(() => {
+    setPolicies(readStoredPolicies())
+  }, [])
+
+  const persist = (next: CustomPolicySource[]) => {
+    setPolicies(next)
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(next))
+  }
+
+  // Adds the policy, or replaces the saved one with the same id
+  const savePolicy = (policy: CustomPolicySource) => {
+    const exists = policies.some(({ id }) => id === policy.id)
+    persist(exists ? policies.map((saved) => (saved.id === policy.id ? policy : saved)) : [...policies, policy])
+  }
+
+  const deletePolicy = (id: string) => {
+    persist(policies.filter((policy) => policy.id !== id))
+  }
+
+  return { policies, savePolicy, deletePolicy }
+}
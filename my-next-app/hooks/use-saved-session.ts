@@ -0,0 +1,78 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import {
+  DEFAULT_REPLACEMENT_OPTIONS,
+  INCLUSION_POLICIES,
+  MAPPING_TYPES,
+  MAX_LEVELS,
+  REPLACEMENT_POLICIES,
+  WRITE_MISS_POLICIES,
+  WRITE_POLICIES,
+  validateGeometry,
+  validateReplacementOptions,
+  validateSeed,
+  type CacheConfig,
+  type InclusionPolicy,
+} from "@/lib/cache-engine"
+
+const STORAGE_KEY = "cache-visualizer.session"
+
+// What it takes to repeat a run: every level's configuration and the seed
+export interface SavedSession {
+  seed: number
+  levels: CacheConfig[] // L1, then every lower level, including ones not in use
+  levelCount: number
+  inclusion: InclusionPolicy
+}
+
+const isCacheConfig = (value: unknown): value is CacheConfig => {
+  if (typeof value !== "object" || value === null) return false
+  const config = value as CacheConfig
+  return (
+    Object.values(MAPPING_TYPES).includes(config.mappingType) &&
+    Object.values(REPLACEMENT_POLICIES).includes(config.replacementPolicy) &&
+    Object.values(WRITE_POLICIES).includes(config.writePolicy) &&
+    Object.values(WRITE_MISS_POLICIES).includes(config.writeMissPolicy) &&
+    validateGeometry(config).length === 0 &&
+    validateReplacementOptions({ ...DEFAULT_REPLACEMENT_OPTIONS, ...config.replacementOptions }).length === 0
+  )
+}
+
+const isSavedSession = (value: unknown): value is SavedSession => {
+  if (typeof value !== "object" || value === null) return false
+  const session = value as SavedSession
+  return (
+    typeof session.seed === "number" &&
+    validateSeed(session.seed).length === 0 &&
+    Array.isArray(session.levels) &&
+    session.levels.length === MAX_LEVELS &&
+    session.levels.every(isCacheConfig) &&
+    Number.isInteger(session.levelCount) &&
+    session.levelCount >= 1 &&
+    session.levelCount <= MAX_LEVELS &&
+    Object.values(INCLUSION_POLICIES).includes(session.inclusion)
+  )
+}
+
+// Keeps the session in the browser, so a reproducible run survives a reload.
+// `restore` gets the saved session once, after the first render; from then
+// on every change is saved.
+export function useSavedSession(session: SavedSession, restore: (session: SavedSession) => void) {
+  const [restored, setRestored] = useState(false)
+
+  useEffect(() => {
+    try {
+      const stored: unknown = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "null")
+      if (isSavedSession(stored)) restore(stored)
+    } catch {
+      // Unreadable sessions are replaced by the current one
+    }
+    setRestored(true)
+  }, [])
+
+  const serialized = JSON.stringify(session)
+  useEffect(() => {
+    if (restored) localStorage.setItem(STORAGE_KEY, serialized)
+  }, [restored, serialized])
+}
@@ -0,0 +1,21 @@
+import type { BackgroundProgress, BackgroundResult } from "./background"
+import type { RunnerOptions } from "./runner"
+import type { CacheConfig, TraceAccess } from "./types"
+
+// Where a run gets its accesses: the trace loaded on the page, or a file the
+// worker reads and parses itself, so a large trace never sits on the page
+export type BackgroundSource =
+  { kind: "trace"; trace: TraceAccess[] } | { kind: "file"; file: File; maxAddress: number; fold: boolean }
+
+// The one request a background worker gets, see background.worker.ts
+export interface BackgroundRequest {
+  configs: CacheConfig[]
+  options: RunnerOptions
+  source: BackgroundSource
+  passes: number
+}
+
+export type BackgroundMessage =
+  | { kind: "progress"; progress: BackgroundProgress }
+  | { kind: "done"; result: BackgroundResult }
+  | { kind: "error"; error: string }
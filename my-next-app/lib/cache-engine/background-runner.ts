@@ -0,0 +1,50 @@
+import type { BackgroundProgress, BackgroundResult } from "./background"
+import type { BackgroundMessage, BackgroundRequest, BackgroundSource } from "./background-protocol"
+import type { RunnerOptions } from "./runner"
+import type { CacheConfig } from "./types"
+
+// A simulation running in its own worker. `result` rejects if the run fails
+// or is cancelled.
+export interface BackgroundRun {
+  result: Promise<BackgroundResult>
+  cancel: () => void
+}
+
+// Starts a background run of the accesses on fresh caches. Custom policies are
+// compiled inside the worker, like in the policy sandbox.
+export function startBackgroundRun(
+  configs: CacheConfig[],
+  options: RunnerOptions,
+  source: BackgroundSource,
+  passes: number,
+  onProgress: (progress: BackgroundProgress) => void,
+): BackgroundRun {
+  const worker = new Worker(new URL("./background.worker.ts", import.meta.url))
+  let cancel = () => {}
+  let settled = false // Messages already on their way when the worker stops are dropped
+
+  const result = new Promise<BackgroundResult>((resolve, reject) => {
+    const finish = (error: Error | null, result?: BackgroundResult) => {
+      if (settled) return
+      settled = true
+      worker.terminate()
+      if (error) reject(error)
+      else resolve(result as BackgroundResult)
+    }
+    cancel = () => finish(new Error("The background run was cancelled"))
+
+    worker.onmessage = (event: MessageEvent<BackgroundMessage>) => {
+      const message = event.data
+      if (settled) return
+      if (message.kind === "progress") onProgress(message.progress)
+      else if (message.kind === "done") finish(null, message.result)
+      else finish(new Error(message.error))
+    }
+    worker.onerror = (event) => finish(new Error(event.message || "The background run crashed"))
+
+    const request: BackgroundRequest = { configs, options, source, passes }
+    worker.postMessage(request)
+  })
+
+  return { result, cancel: () => cancel() }
+}
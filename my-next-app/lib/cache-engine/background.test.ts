@@ -0,0 +1,53 @@
+import { afterEach, describe, expect, it, vi } from "vitest"
+import { simulateTrace } from "./background"
+import { CacheHierarchy } from "./hierarchy"
+import type { CacheConfig, ReplacementPolicy, TraceAccess } from "./types"
+
+const BLOCK_SIZE = 8
+
+const fourWays = (replacementPolicy: ReplacementPolicy): CacheConfig => ({
+  capacity: 4 * BLOCK_SIZE,
+  blockSize: BLOCK_SIZE,
+  associativity: 1,
+  addressBits: 8,
+  mappingType: "fully-associative",
+  replacementPolicy,
+  writePolicy: "write-back",
+  writeMissPolicy: "write-allocate",
+})
+
+// Five blocks cycled through four ways, which LRU never hits
+const trace: TraceAccess[] = [0, 1, 2, 3, 4].map((block) => ({ address: block * BLOCK_SIZE, type: "read" }))
+
+describe("simulateTrace", () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it("looks ahead over every pass for OPT", () => {
+    const setFuture = vi.spyOn(CacheHierarchy.prototype, "setFuture")
+    const result = simulateTrace([fourWays("opt")], trace, 2)
+
+    expect(setFuture).toHaveBeenCalledTimes(1)
+    expect(setFuture.mock.calls[0][0]?.length).toBe(10)
+    // 4 pushes out 3, the block used furthest ahead, so the second pass misses only 3
+    expect(result.stats[0].hits).toBe(4)
+  })
+
+  it("builds no future trace when no level uses OPT", () => {
+    const setFuture = vi.spyOn(CacheHierarchy.prototype, "setFuture")
+    const result = simulateTrace([fourWays("lru"), fourWays("fifo")], trace, 2)
+
+    expect(setFuture).not.toHaveBeenCalled()
+    expect(result.stats[0].hits).toBe(0)
+  })
+
+  it("samples the caches without next uses", () => {
+    const getNextUses = vi.spyOn(CacheHierarchy.prototype, "getNextUses")
+    const { samples } = simulateTrace([fourWays("opt")], trace, 4)
+
+    expect(samples.map((sample) => sample.position)).toEqual(Array.from({ length: 20 }, (_, i) => i + 1))
+    expect(samples.every((sample) => !("nextUses" in sample.snapshot))).toBe(true)
+    expect(getNextUses).not.toHaveBeenCalled()
+  })
+})
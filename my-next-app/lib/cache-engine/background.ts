@@ -0,0 +1,91 @@
+import {
+  BACKGROUND_PROGRESS_REPORTS,
+  BACKGROUND_SAMPLES,
+  MAX_BACKGROUND_ACCESSES,
+  MAX_BACKGROUND_PASSES,
+  REPLACEMENT_POLICIES,
+} from "./constants"
+import { FutureTrace } from "./future"
+import { CacheHierarchy, type HierarchyOptions, type HierarchyState } from "./hierarchy"
+import type { CacheConfig, CacheStatsSnapshot, MemoryTrafficSnapshot, TraceAccess } from "./types"
+
+export interface BackgroundProgress {
+  done: number // Accesses run so far
+  total: number
+  hitRate: number // L1, 0 to 1, over the accesses run so far
+}
+
+// The caches partway through a run, after `position` accesses
+export interface BackgroundSample {
+  position: number
+  hitRate: number
+  snapshot: HierarchyState
+}
+
+export interface BackgroundResult {
+  accesses: number
+  stats: CacheStatsSnapshot[] // Per level, L1 first
+  traffic: MemoryTrafficSnapshot
+  samples: BackgroundSample[] // The last one is the state at the end
+  truncated?: boolean // Set when a trace file had more accesses than a run may make
+}
+
+// Accesses of a trace file a run with this many passes keeps
+export const backgroundFileLimit = (passes: number) => Math.floor(MAX_BACKGROUND_ACCESSES / passes)
+
+// Checks the passes, and with a trace of known length the total it adds up to
+export function validatePasses(passes: number, traceLength = 0): string[] {
+  if (!Number.isInteger(passes) || passes < 1 || passes > MAX_BACKGROUND_PASSES) {
+    return [`Passes must be a whole number between 1 and ${MAX_BACKGROUND_PASSES}`]
+  }
+  if (traceLength * passes > MAX_BACKGROUND_ACCESSES) {
+    return [`A background run makes at most ${MAX_BACKGROUND_ACCESSES} accesses over all passes`]
+  }
+  return []
+}
+
+const hitRate = (stats: CacheStatsSnapshot, accesses: number) => (accesses > 0 ? stats.hits / accesses : 0)
+
+// Runs the trace `passes` times back to back on fresh caches, without copying
+// out any state but the sampled snapshots. OPT sees all passes as one trace.
+// Samples leave out next uses, which the background view doesn't draw.
+export function simulateTrace(
+  configs: CacheConfig[],
+  trace: TraceAccess[],
+  passes: number,
+  options: HierarchyOptions = {},
+  onProgress?: (progress: BackgroundProgress) => void,
+): BackgroundResult {
+  const errors = validatePasses(passes, trace.length)
+  if (errors.length > 0) throw new Error(errors[0])
+
+  const total = trace.length * passes
+  const hierarchy = new CacheHierarchy(configs, options)
+  // Only OPT looks ahead, and the index over every pass is as long as the run
+  if (configs.some((config) => config.replacementPolicy === REPLACEMENT_POLICIES.OPT)) {
+    const addresses = trace.map((entry) => entry.address)
+    hierarchy.setFuture(new FutureTrace(Array.from({ length: passes }, () => addresses).flat()))
+  }
+
+  const sampleEvery = Math.max(1, Math.ceil(total / BACKGROUND_SAMPLES))
+  const reportEvery = Math.max(1, Math.ceil(total / BACKGROUND_PROGRESS_REPORTS))
+  const samples: BackgroundSample[] = []
+
+  let done = 0
+  for (let pass = 0; pass < passes; pass++) {
+    for (const entry of trace) {
+      hierarchy.access(entry.address, entry.type, done)
+      done += 1
+
+      if (done % sampleEvery === 0 || done === total) {
+        const snapshot = hierarchy.state()
+        samples.push({ position: done, hitRate: hitRate(snapshot.stats[0], done), snapshot })
+      }
+      if (done % reportEvery === 0 || done === total) {
+        onProgress?.({ done, total, hitRate: hitRate(hierarchy.getStats()[0], done) })
+      }
+    }
+  }
+
+  return { accesses: total, stats: hierarchy.getStats(), traffic: hierarchy.getTraffic(), samples }
+}
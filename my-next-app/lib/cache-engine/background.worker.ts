@@ -0,0 +1,36 @@
+import { backgroundFileLimit, simulateTrace } from "./background"
+import { compilePolicy } from "./plugin"
+import { detectTraceFormat, parseTraceFile } from "./trace"
+import type { BackgroundMessage, BackgroundRequest, BackgroundSource } from "./background-protocol"
+
+// Runs one long simulation off the page. The loop never yields, so the page
+// cancels a run by terminating the worker.
+
+const post = (message: BackgroundMessage) => self.postMessage(message)
+
+// Files are parsed here with the background limit instead of the page's
+async function loadTrace(source: BackgroundSource, passes: number) {
+  if (source.kind === "trace") return { trace: source.trace, truncated: false }
+
+  const text = await source.file.text()
+  const format = detectTraceFormat(text, source.file.name)
+  const { maxAddress, fold } = source
+  const parsed = parseTraceFile(text, format, { maxAddress, fold, maxAccesses: backgroundFileLimit(passes) })
+  if (parsed.errors.length > 0) throw new Error(parsed.errors.join("\n"))
+  if (parsed.entries.length === 0) throw new Error(`${source.file.name} has no accesses`)
+
+  return { trace: parsed.entries, truncated: parsed.truncated ?? false }
+}
+
+self.onmessage = async (event: MessageEvent<BackgroundRequest>) => {
+  const { configs, options, source, passes } = event.data
+  try {
+    const { trace, truncated } = await loadTrace(source, passes)
+    const result = simulateTrace(configs, trace, passes, { ...options, resolvePolicy: compilePolicy }, (progress) =>
+      post({ kind: "progress", progress }),
+    )
+    post({ kind: "done", result: { ...result, truncated } })
+  } catch (error) {
+    post({ kind: "error", error: error instanceof Error ? error.message : String(error) })
+  }
+}
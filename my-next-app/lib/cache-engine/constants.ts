@@ -0,0 +1,293 @@
+import type {
+  AccessType,
+  ArrayLayout,
+  CacheConfig,
+  CacheGeometry,
+  InclusionPolicy,
+  LfuTieBreak,
+  MappingType,
+  ReplacementOptions,
+  ReplacementPolicy,
+  TraceFormat,
+  TraceGeneratorParams,
+  TracePattern,
+  WriteMissPolicy,
+  WritePolicy,
+} from "./types"
+
+// Cache mapping types
+export const MAPPING_TYPES = {
+  DIRECT: "direct",
+  FULLY_ASSOCIATIVE: "fully-associative",
+  SET_ASSOCIATIVE: "set-associative",
+} as const
+
+// Replacement policies
+export const REPLACEMENT_POLICIES = {
+  FIFO: "fifo",
+  LRU: "lru",
+  LFU: "lfu",
+  LFU_DECAY: "lfu-decay", // LFU with counts halved periodically
+  LFU_DA: "lfu-da", // LFU with dynamic aging
+  RANDOM: "random",
+  TREE_PLRU: "tree-plru",
+  BIT_PLRU: "bit-plru", // MRU bits
+  CLOCK: "clock", // Second chance
+  NRU: "nru", // Not recently used
+  SRRIP: "srrip", // Static re-reference interval prediction
+  BRRIP: "brrip", // Bimodal RRIP
+  DRRIP: "drrip", // Set dueling between SRRIP and BRRIP
+  LIP: "lip", // LRU eviction, fills inserted at the LRU position
+  BIP: "bip", // LIP with occasional MRU insertion
+  DIP: "dip", // Set dueling between LRU and BIP
+  SLRU: "slru", // Segmented LRU
+  TWO_Q: "2q",
+  ARC: "arc", // Adaptive replacement cache
+  OPT: "opt", // Belady's optimal, needs the trace in advance
+  CUSTOM: "custom", // Written by the user, runs in the policy sandbox
+} as const
+
+export const MAPPING_LABELS: Record<MappingType, string> = {
+  direct: "Direct Mapping",
+  "fully-associative": "Fully Associative",
+  "set-associative": "Set Associative",
+}
+
+export const REPLACEMENT_POLICY_LABELS: Record<ReplacementPolicy, string> = {
+  fifo: "FIFO",
+  lru: "LRU",
+  lfu: "LFU",
+  "lfu-decay": "LFU (Decay)",
+  "lfu-da": "LFU-DA",
+  random: "Random",
+  "tree-plru": "Tree-PLRU",
+  "bit-plru": "Bit-PLRU (MRU)",
+  clock: "CLOCK",
+  nru: "NRU",
+  srrip: "SRRIP",
+  brrip: "BRRIP",
+  drrip: "DRRIP",
+  lip: "LIP",
+  bip: "BIP",
+  dip: "DIP",
+  slru: "SLRU",
+  "2q": "2Q",
+  arc: "ARC",
+  opt: "OPT (Belady)",
+  custom: "Custom",
+}
+
+// Policies with their own button, custom ones are listed by name instead
+export const BUILT_IN_POLICIES = Object.values(REPLACEMENT_POLICIES).filter(
+  (policy) => policy !== REPLACEMENT_POLICIES.CUSTOM,
+)
+
+// How LFU variants choose between lines with the same count
+export const LFU_TIE_BREAKS = {
+  OLDEST: "oldest", // Earliest filled
+  LRU: "lru", // Least recently used
+  RANDOM: "random",
+} as const
+
+export const LFU_TIE_BREAK_LABELS: Record<LfuTieBreak, string> = {
+  oldest: "Oldest",
+  lru: "LRU",
+  random: "Random",
+}
+
+// Policies that rank lines by an access count
+export const LFU_POLICIES: ReplacementPolicy[] = ["lfu", "lfu-decay", "lfu-da"]
+
+// Policies that keep a re-reference prediction value per line
+export const RRIP_POLICIES: ReplacementPolicy[] = ["srrip", "brrip", "drrip"]
+
+// Policies that split lines into lists, meant for fully-associative caches
+export const LIST_POLICIES: ReplacementPolicy[] = ["slru", "2q", "arc"]
+
+// Policies that pick between two others by set dueling, as [A, B]
+export const DUELING_POLICIES: Partial<Record<ReplacementPolicy, [ReplacementPolicy, ReplacementPolicy]>> = {
+  drrip: ["srrip", "brrip"],
+  dip: ["lru", "bip"],
+}
+
+export const DEFAULT_REPLACEMENT_OPTIONS: ReplacementOptions = {
+  rrpvBits: 2,
+  bimodalProbability: 1 / 32,
+  leaderSets: 1,
+  pselBits: 10,
+  nruClearInterval: 8,
+  lfuDecayInterval: 16,
+  lfuTieBreak: "oldest",
+}
+
+export const MAX_RRPV_BITS = 4
+export const MAX_PSEL_BITS = 16
+
+// Seeds for the per-cache random number generators, 32-bit unsigned
+export const DEFAULT_SEED = 1
+export const MAX_SEED = 0xffffffff
+export const MAX_SWEEP_SEEDS = 100 // Most runs a multi-seed sweep may ask for
+
+// Kinds of memory access a program issues
+export const ACCESS_TYPES = {
+  READ: "read",
+  WRITE: "write",
+} as const
+
+export const ACCESS_TYPE_LABELS: Record<AccessType, string> = {
+  read: "Load",
+  write: "Store",
+}
+
+// Memory trace file formats that can be imported
+export const TRACE_FORMATS = {
+  DINERO: "dinero", // Dinero IV "din": label and hex address per line
+  LACKEY: "lackey", // Valgrind --tool=lackey --trace-mem=yes output
+  CSV: "csv", // op,address,size
+} as const
+
+export const TRACE_FORMAT_LABELS: Record<TraceFormat, string> = {
+  dinero: "Dinero IV (din)",
+  lackey: "Valgrind Lackey",
+  csv: "CSV (op,address,size)",
+}
+
+export const MAX_TRACE_ACCESSES = 100_000 // Longer imports are cut off here
+export const MAX_TRACE_ERRORS = 20 // Errors listed before the rest are only counted
+
+// Background runs read large trace files, or repeat the trace, to reach
+// millions of accesses off the page
+export const MAX_BACKGROUND_ACCESSES = 10_000_000 // Over all passes, longer files are cut off
+export const MAX_BACKGROUND_PASSES = 100
+export const BACKGROUND_SAMPLES = 20 // Snapshots kept from a run, evenly spaced
+export const BACKGROUND_PROGRESS_REPORTS = 200 // Most progress messages a run sends
+
+// Access patterns the trace generator produces
+export const TRACE_PATTERNS = {
+  SEQUENTIAL: "sequential", // Every byte in order
+  STRIDED: "strided", // Every stride-th byte
+  UNIFORM: "uniform", // Elements picked uniformly at random
+  ZIPF: "zipf", // A few hot elements, a long tail of cold ones
+  CYCLIC: "cyclic", // The same working set over and over
+  POINTER_CHASE: "pointer-chase", // A linked list laid out in random order
+} as const
+
+export const TRACE_PATTERN_LABELS: Record<TracePattern, string> = {
+  sequential: "Sequential",
+  strided: "Strided",
+  uniform: "Random Uniform",
+  zipf: "Zipfian",
+  cyclic: "Cyclic Working Set",
+  "pointer-chase": "Pointer Chasing",
+}
+
+export const DEFAULT_GENERATOR_PARAMS: TraceGeneratorParams = {
+  pattern: "cyclic",
+  base: 0,
+  stride: 32,
+  count: 64,
+  footprint: 12,
+  seed: DEFAULT_SEED,
+  zipfExponent: 1,
+}
+
+export const MAX_GENERATOR_FOOTPRINT = 65_536 // Elements, Zipf keeps a table this long
+
+// How a loop-nest array's elements are ordered in memory
+export const ARRAY_LAYOUTS = {
+  ROW_MAJOR: "row-major", // Last index varies fastest, as in C
+  COLUMN_MAJOR: "column-major", // First index varies fastest, as in Fortran
+} as const
+
+export const ARRAY_LAYOUT_LABELS: Record<ArrayLayout, string> = {
+  "row-major": "Row-major",
+  "column-major": "Column-major",
+}
+
+// Sizes in bytes of the element types loop-nest arrays can be declared with
+export const ELEMENT_TYPE_SIZES: Record<string, number> = {
+  char: 1,
+  short: 2,
+  int: 4,
+  float: 4,
+  long: 8,
+  double: 8,
+}
+
+export const MAX_LOOP_ITERATIONS = 1_000_000 // Loop bodies run before a program is stopped
+
+// When a store reaches the level below
+export const WRITE_POLICIES = {
+  WRITE_BACK: "write-back", // On eviction of the dirty line
+  WRITE_THROUGH: "write-through", // Immediately, lines never become dirty
+} as const
+
+export const WRITE_POLICY_LABELS: Record<WritePolicy, string> = {
+  "write-back": "Write-Back",
+  "write-through": "Write-Through",
+}
+
+// Whether a store that misses brings the block in first
+export const WRITE_MISS_POLICIES = {
+  WRITE_ALLOCATE: "write-allocate", // Fetch the block, then write into it
+  NO_WRITE_ALLOCATE: "no-write-allocate", // Write around the cache to the level below
+} as const
+
+export const WRITE_MISS_POLICY_LABELS: Record<WriteMissPolicy, string> = {
+  "write-allocate": "Write-Allocate",
+  "no-write-allocate": "No-Write-Allocate",
+}
+
+export const MAIN_MEMORY_SIZE = 32 // Number of main memory blocks shown
+
+// Default cache geometry: 8 blocks of 32 bytes, 2-way when set associative
+export const DEFAULT_GEOMETRY: CacheGeometry = {
+  capacity: 256, // Total cache capacity in bytes
+  blockSize: 32, // Cache block size in bytes
+  associativity: 2, // Ways per set for set-associative mapping
+  addressBits: 20, // Number of bits in the address (up to 1048575)
+}
+
+export const MAX_ADDRESS_BITS = 32
+export const MAX_VISIBLE_BLOCKS = 256 // Largest cache the visualizer will lay out
+
+// Cache hierarchy
+export const MAX_LEVELS = 3
+export const LEVEL_NAMES = ["L1", "L2", "L3"]
+
+// How the contents of neighbouring levels relate to each other
+export const INCLUSION_POLICIES = {
+  INCLUSIVE: "inclusive",
+  EXCLUSIVE: "exclusive",
+  NINE: "nine", // Non-inclusive non-exclusive
+} as const
+
+export const INCLUSION_POLICY_LABELS: Record<InclusionPolicy, string> = {
+  inclusive: "Inclusive",
+  exclusive: "Exclusive",
+  nine: "Non-Inclusive (NINE)",
+}
+
+// Defaults for the levels below L1, each larger and more associative than the last
+export const DEFAULT_LOWER_LEVELS: CacheConfig[] = [
+  {
+    mappingType: "set-associative",
+    replacementPolicy: "lru",
+    writePolicy: "write-back",
+    writeMissPolicy: "write-allocate",
+    capacity: 1024,
+    blockSize: 32,
+    associativity: 4,
+    addressBits: 20,
+  },
+  {
+    mappingType: "set-associative",
+    replacementPolicy: "lru",
+    writePolicy: "write-back",
+    writeMissPolicy: "write-allocate",
+    capacity: 4096,
+    blockSize: 32,
+    associativity: 8,
+    addressBits: 20,
+  },
+]
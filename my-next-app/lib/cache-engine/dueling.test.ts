@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest"
+import { CacheSimulator } from "./simulator"
+import type { CacheConfig, DuelRole, ReplacementPolicy } from "./types"
+
+const BLOCK_SIZE = 8
+const NUM_SETS = 4
+
+// Four 2-way sets. With one leader pair, set 0 always runs the first policy
+// and set 2 the second; sets 1 and 3 follow PSEL.
+const dueling = (replacementPolicy: ReplacementPolicy, pselBits = 10): CacheConfig => ({
+  capacity: NUM_SETS * 2 * BLOCK_SIZE,
+  blockSize: BLOCK_SIZE,
+  associativity: 2,
+  addressBits: 12,
+  mappingType: "set-associative",
+  replacementPolicy,
+  replacementOptions: { leaderSets: 1, pselBits },
+  writePolicy: "write-back",
+  writeMissPolicy: "write-allocate",
+})
+
+// Cycles three blocks through a 2-way set, returning how many accesses missed.
+// Every one does under LRU and SRRIP; BIP and BRRIP keep a block resident.
+function thrash(cache: CacheSimulator, set: number, accesses: number) {
+  let misses = 0
+  for (let i = 0; i < accesses; i++) {
+    if (cache.access(((i % 3) * NUM_SETS + set) * BLOCK_SIZE).result === "miss") misses += 1
+  }
+  return misses
+}
+
+describe.each([
+  ["drrip", "srrip", "brrip"],
+  ["dip", "lru", "bip"],
+] as const)("%s set dueling", (policy, first, second) => {
+  it("starts at the PSEL midpoint, favoring the first policy", () => {
+    const cache = new CacheSimulator(dueling(policy))
+    expect(cache.getDuelState()).toMatchObject({
+      policies: [first, second],
+      psel: 512,
+      pselMax: 1023,
+      favored: first,
+      roles: ["a", "follower", "b", "follower"],
+    })
+    expect(cache.policyFor(1)).toBe(first)
+  })
+
+  it("moves PSEL away from the leader that misses", () => {
+    const cache = new CacheSimulator(dueling(policy))
+
+    expect(thrash(cache, 0, 30)).toBe(30)
+    expect(cache.getDuelState()).toMatchObject({ psel: 542, favored: second })
+    expect(cache.policyFor(1)).toBe(second)
+    expect(cache.policyFor(0)).toBe(first) // Leaders never switch
+
+    const misses = thrash(cache, 2, 150)
+    expect(misses).toBeLessThan(150)
+    expect(cache.getDuelState()).toMatchObject({ psel: 542 - misses, favored: first })
+    expect(cache.policyFor(3)).toBe(first)
+  })
+
+  it("saturates PSEL at its width", () => {
+    const cache = new CacheSimulator(dueling(policy, 2))
+    thrash(cache, 0, 10)
+    expect(cache.getDuelState()).toMatchObject({ psel: 3, pselMax: 3 })
+    thrash(cache, 2, 10)
+    expect(cache.getDuelState()).toMatchObject({ psel: 0 })
+  })
+
+  it("assigns as many leaders of each kind as asked, even when they don't divide the sets", () => {
+    const config = dueling(policy)
+    const roles = (numSets: number, leaderSets: number) =>
+      new CacheSimulator({
+        ...config,
+        capacity: numSets * 2 * BLOCK_SIZE,
+        replacementOptions: { ...config.replacementOptions, leaderSets },
+      }).getDuelState()?.roles ?? []
+    const count = (numSets: number, leaderSets: number, role: DuelRole) =>
+      roles(numSets, leaderSets).filter((r) => r === role).length
+
+    expect([count(8, 3, "a"), count(8, 3, "b")]).toEqual([3, 3])
+    expect([count(32, 5, "a"), count(32, 5, "b")]).toEqual([5, 5])
+    expect(roles(8, 3)).toEqual(["a", "b", "a", "b", "a", "b", "follower", "follower"])
+    // No more than half the sets can lead
+    expect([count(4, 3, "a"), count(4, 3, "b")]).toEqual([2, 2])
+  })
+
+  it("ignores misses in follower sets", () => {
+    const cache = new CacheSimulator(dueling(policy))
+    thrash(cache, 1, 30)
+    thrash(cache, 3, 30)
+    expect(cache.getDuelState()?.psel).toBe(512)
+  })
+})
@@ -0,0 +1,62 @@
+import type { DuelRole } from "./types"
+
+// Set dueling: a few leader sets always run policy A, a few always run policy
+// B, and every miss in a leader set nudges a saturating PSEL counter towards
+// the other policy. The remaining follower sets use whichever policy PSEL
+// currently favors.
+export class SetDueling {
+  readonly pselMax: number
+  private roles: DuelRole[]
+  private psel: number
+
+  constructor(numSets: number, leaderSets: number, pselBits: number) {
+    this.pselMax = 2 ** pselBits - 1
+    this.psel = this.midpoint
+
+    // Spread the leaders evenly, pairing each A leader with a B leader half a
+    // stride later. Sets past the last stride follow, so a count that doesn't
+    // divide the sets still gets exactly that many leaders of each kind. A
+    // single set can't duel, so it just follows.
+    const leaders = Math.min(leaderSets, Math.floor(numSets / 2))
+    const stride = leaders > 0 ? Math.floor(numSets / leaders) : numSets
+    this.roles = Array.from({ length: numSets }, (_, set): DuelRole => {
+      if (leaders === 0 || set >= leaders * stride) return "follower"
+      if (set % stride === 0) return "a"
+      if (set % stride === Math.floor(stride / 2)) return "b"
+      return "follower"
+    })
+  }
+
+  private get midpoint() {
+    return Math.ceil(this.pselMax / 2)
+  }
+
+  role(set: number): DuelRole {
+    return this.roles[set]
+  }
+
+  // Which policy a set should use right now
+  choose(set: number): "a" | "b" {
+    const role = this.roles[set]
+    if (role !== "follower") return role
+    return this.favored
+  }
+
+  get favored(): "a" | "b" {
+    return this.psel > this.midpoint ? "b" : "a"
+  }
+
+  recordMiss(set: number) {
+    const role = this.roles[set]
+    if (role === "a") this.psel = Math.min(this.psel + 1, this.pselMax)
+    if (role === "b") this.psel = Math.max(this.psel - 1, 0)
+  }
+
+  getRoles(): DuelRole[] {
+    return [...this.roles]
+  }
+
+  get counter() {
+    return this.psel
+  }
+}
@@ -0,0 +1,47 @@
+// Index over a trace known in advance, answering "when is this block used
+// next?" for Belady's OPT policy. Positions are 0-based trace indices.
+export class FutureTrace {
+  readonly addresses: number[]
+  // Block size -> block address -> ascending positions, built on first use
+  private positions = new Map<number, Map<number, number[]>>()
+
+  constructor(addresses: number[]) {
+    this.addresses = addresses
+  }
+
+  get length() {
+    return this.addresses.length
+  }
+
+  // First position after `after` that touches the block, or Infinity if none
+  nextUse(blockAddress: number, blockSize: number, after: number): number {
+    const positions = this.positionsFor(blockSize).get(blockAddress)
+    if (!positions) return Infinity
+
+    // Binary search for the first position greater than `after`
+    let low = 0
+    let high = positions.length
+    while (low < high) {
+      const mid = Math.floor((low + high) / 2)
+      if (positions[mid] > after) high = mid
+      else low = mid + 1
+    }
+
+    return low < positions.length ? positions[low] : Infinity
+  }
+
+  private positionsFor(blockSize: number) {
+    let byBlock = this.positions.get(blockSize)
+    if (!byBlock) {
+      byBlock = new Map()
+      for (const [position, address] of this.addresses.entries()) {
+        const block = Math.floor(address / blockSize)
+        const list = byBlock.get(block)
+        if (list) list.push(position)
+        else byBlock.set(block, [position])
+      }
+      this.positions.set(blockSize, byBlock)
+    }
+    return byBlock
+  }
+}
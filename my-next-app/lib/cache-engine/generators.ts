@@ -0,0 +1,126 @@
+import { ACCESS_TYPES, MAX_GENERATOR_FOOTPRINT, MAX_SEED, MAX_TRACE_ACCESSES, TRACE_PATTERNS } from "./constants"
+import { seededRandom } from "./random"
+import type { TraceAccess, TraceGeneratorParams, TracePattern } from "./types"
+
+// Parameters each pattern reads besides base and count
+export const PATTERN_PARAMS: Record<TracePattern, Array<keyof TraceGeneratorParams>> = {
+  sequential: [],
+  strided: ["stride"],
+  uniform: ["stride", "footprint", "seed"],
+  zipf: ["stride", "footprint", "zipfExponent", "seed"],
+  cyclic: ["stride", "footprint"],
+  "pointer-chase": ["stride", "footprint", "seed"],
+}
+
+// Highest address a pattern can produce
+export function highestGeneratedAddress({ pattern, base, stride, count, footprint }: TraceGeneratorParams) {
+  switch (pattern) {
+    case TRACE_PATTERNS.SEQUENTIAL:
+      return base + count - 1
+    case TRACE_PATTERNS.STRIDED:
+      return base + stride * (count - 1)
+    default:
+      return base + stride * (footprint - 1)
+  }
+}
+
+export function validateGeneratorParams(params: TraceGeneratorParams, maxAddress: number): string[] {
+  const errors: string[] = []
+  const { pattern, base, stride, count, footprint, seed, zipfExponent } = params
+  const used = PATTERN_PARAMS[pattern]
+
+  if (!Number.isInteger(base) || base < 0) errors.push("Base must be a whole number of at least 0")
+  if (!Number.isInteger(count) || count < 1 || count > MAX_TRACE_ACCESSES) {
+    errors.push(`Count must be between 1 and ${MAX_TRACE_ACCESSES}`)
+  }
+  if (used.includes("stride") && (!Number.isInteger(stride) || stride < 1)) {
+    errors.push("Stride must be at least 1 byte")
+  }
+  if (
+    used.includes("footprint") &&
+    (!Number.isInteger(footprint) || footprint < 1 || footprint > MAX_GENERATOR_FOOTPRINT)
+  ) {
+    errors.push(`Footprint must be between 1 and ${MAX_GENERATOR_FOOTPRINT} elements`)
+  }
+  if (used.includes("seed") && (!Number.isInteger(seed) || seed < 0 || seed > MAX_SEED)) {
+    errors.push(`Seed must be a whole number from 0 to ${MAX_SEED}`)
+  }
+  if (used.includes("zipfExponent") && !(zipfExponent > 0 && zipfExponent <= 10)) {
+    errors.push("Zipf exponent must be above 0 and at most 10")
+  }
+
+  if (errors.length === 0 && highestGeneratedAddress(params) > maxAddress) {
+    errors.push(`Addresses reach ${highestGeneratedAddress(params)}, above the largest address ${maxAddress}`)
+  }
+  return errors
+}
+
+// Picks ranks 0..n-1 with probability proportional to 1 / (rank + 1)^s
+function zipfSampler(n: number, exponent: number, random: () => number) {
+  const cumulative: number[] = []
+  let total = 0
+  for (let rank = 0; rank < n; rank++) {
+    total += 1 / (rank + 1) ** exponent
+    cumulative.push(total)
+  }
+
+  return () => {
+    const target = random() * total
+    let low = 0
+    let high = n - 1
+    while (low < high) {
+      const mid = Math.floor((low + high) / 2)
+      if (cumulative[mid] > target) high = mid
+      else low = mid + 1
+    }
+    return low
+  }
+}
+
+// Sattolo's shuffle: a random permutation that is one single cycle, so
+// following next[] from any element visits every element before repeating
+function singleCycle(n: number, random: () => number) {
+  const next = Array.from({ length: n }, (_, i) => i)
+  for (let i = n - 1; i > 0; i--) {
+    const j = Math.floor(random() * i)
+    ;[next[i], next[j]] = [next[j], next[i]]
+  }
+  return next
+}
+
+// Index of the element touched by each access
+function elementSequence({ pattern, count, footprint, seed, zipfExponent }: TraceGeneratorParams): number[] {
+  const random = seededRandom(seed)
+
+  switch (pattern) {
+    case TRACE_PATTERNS.SEQUENTIAL:
+    case TRACE_PATTERNS.STRIDED:
+      return Array.from({ length: count }, (_, i) => i)
+    case TRACE_PATTERNS.UNIFORM:
+      return Array.from({ length: count }, () => Math.floor(random() * footprint))
+    case TRACE_PATTERNS.ZIPF: {
+      const sample = zipfSampler(footprint, zipfExponent, random)
+      return Array.from({ length: count }, sample)
+    }
+    case TRACE_PATTERNS.CYCLIC:
+      return Array.from({ length: count }, (_, i) => i % footprint)
+    case TRACE_PATTERNS.POINTER_CHASE: {
+      const next = singleCycle(footprint, random)
+      let current = 0
+      return Array.from({ length: count }, () => {
+        const element = current
+        current = next[current]
+        return element
+      })
+    }
+  }
+}
+
+// Loads following the chosen pattern. Call validateGeneratorParams first.
+export function generateTrace(params: TraceGeneratorParams): TraceAccess[] {
+  const step = params.pattern === TRACE_PATTERNS.SEQUENTIAL ? 1 : params.stride
+  return elementSequence(params).map((element) => ({
+    address: params.base + element * step,
+    type: ACCESS_TYPES.READ,
+  }))
+}
@@ -0,0 +1,79 @@
+import { MAPPING_TYPES, MAX_ADDRESS_BITS } from "./constants"
+import type { AddressComponents, CacheGeometry, DerivedGeometry, MappingType } from "./types"
+
+export const isPowerOfTwo = (value: number) =>
+  Number.isInteger(value) && value > 0 && Number.isInteger(Math.log2(value))
+
+export const maxAddress = (addressBits: number) => 2 ** addressBits - 1
+
+// First and last byte address covered by a block
+export const blockByteRange = (blockAddress: number, blockSize: number) => ({
+  start: blockAddress * blockSize,
+  end: (blockAddress + 1) * blockSize - 1,
+})
+
+// Splits an address into | tag | index | offset |. Division is used instead
+// of shifts so 32-bit addresses don't overflow JavaScript's signed bit ops.
+export function addressComponents(address: number, { offsetBits, indexBits }: DerivedGeometry): AddressComponents {
+  const blockAddress = Math.floor(address / 2 ** offsetBits)
+  const offset = address % 2 ** offsetBits
+  const index = blockAddress % 2 ** indexBits
+  const tag = Math.floor(blockAddress / 2 ** indexBits)
+
+  return { blockAddress, tag, index, offset }
+}
+
+// Number of ways a mapping type actually uses for the given geometry
+export function effectiveWays(geometry: CacheGeometry, mappingType: MappingType) {
+  const numBlocks = geometry.capacity / geometry.blockSize
+
+  if (mappingType === MAPPING_TYPES.DIRECT) return 1
+  if (mappingType === MAPPING_TYPES.FULLY_ASSOCIATIVE) return numBlocks
+  return geometry.associativity
+}
+
+export function deriveGeometry(geometry: CacheGeometry, mappingType: MappingType): DerivedGeometry {
+  const numBlocks = geometry.capacity / geometry.blockSize
+  const ways = effectiveWays(geometry, mappingType)
+  const numSets = numBlocks / ways
+  const offsetBits = Math.log2(geometry.blockSize)
+  const indexBits = Math.log2(numSets)
+
+  return {
+    numBlocks,
+    numSets,
+    ways,
+    offsetBits,
+    indexBits,
+    tagBits: geometry.addressBits - indexBits - offsetBits,
+  }
+}
+
+// Returns a list of human-readable problems, empty when the geometry is usable
+export function validateGeometry(geometry: CacheGeometry): string[] {
+  const errors: string[] = []
+  const { capacity, blockSize, associativity, addressBits } = geometry
+
+  if (!isPowerOfTwo(capacity)) errors.push("Capacity must be a power of two")
+  if (!isPowerOfTwo(blockSize)) errors.push("Block size must be a power of two")
+  if (!Number.isInteger(associativity) || associativity < 1) errors.push("Associativity must be at least 1 way")
+  if (!Number.isInteger(addressBits) || addressBits < 1 || addressBits > MAX_ADDRESS_BITS) {
+    errors.push(`Address width must be between 1 and ${MAX_ADDRESS_BITS} bits`)
+  }
+  if (errors.length > 0) return errors
+
+  if (capacity % (blockSize * associativity) !== 0) {
+    errors.push("Capacity must be divisible by block size × associativity")
+  } else if (!isPowerOfTwo(capacity / (blockSize * associativity))) {
+    errors.push("Number of sets must be a power of two")
+  }
+
+  // Fully associative has no index bits, so only the offset has to fit
+  if (Math.log2(blockSize) > addressBits) {
+    errors.push("Address width is too small for the block offset")
+  } else if (Math.log2(capacity) > addressBits) {
+    errors.push("Address width is too small to index every block")
+  }
+
+  return errors
+}
@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest"
+import { CacheHierarchy } from "./hierarchy"
+import type { CacheConfig, InclusionPolicy } from "./types"
+
+const BLOCK_SIZE = 8
+
+const level = (overrides: Partial<CacheConfig>): CacheConfig => ({
+  capacity: 2 * BLOCK_SIZE,
+  blockSize: BLOCK_SIZE,
+  associativity: 1,
+  addressBits: 8,
+  mappingType: "direct",
+  replacementPolicy: "lru",
+  writePolicy: "write-back",
+  writeMissPolicy: "write-allocate",
+  ...overrides,
+})
+
+// A two-line direct-mapped L1 over a two-line fully-associative LRU L2
+const twoLevels = (inclusion: InclusionPolicy) =>
+  new CacheHierarchy([level({}), level({ mappingType: "fully-associative" })], { inclusion })
+
+const read = (hierarchy: CacheHierarchy, block: number) => hierarchy.access(block * BLOCK_SIZE)
+
+// Blocks held by one level, in ascending order
+const blocksIn = (hierarchy: CacheHierarchy, index: number) =>
+  hierarchy.getLines()[index].flatMap((line) => (line.valid ? [line.blockAddress] : [])).sort()
+
+describe("CacheHierarchy", () => {
+  it("inclusive: back-invalidates L1 when L2 evicts a block", () => {
+    const hierarchy = twoLevels("inclusive")
+    read(hierarchy, 0)
+    read(hierarchy, 1)
+    read(hierarchy, 0) // L1 hit, so L2 still sees 0 as its LRU block
+
+    // 3 replaces 1 in L1 and 0 in L2, which takes 0 out of L1 too
+    const access = read(hierarchy, 3)
+    expect(access.sideEffects).toContainEqual({ kind: "invalidated", level: 0, blockAddress: 0 })
+    expect(blocksIn(hierarchy, 0)).toEqual([3])
+    expect(read(hierarchy, 0).servedBy).toBe(2)
+  })
+
+  it("NINE: leaves L1 alone when L2 evicts a block", () => {
+    const hierarchy = twoLevels("nine")
+    ;[0, 1, 0, 3].forEach((block) => read(hierarchy, block))
+    expect(blocksIn(hierarchy, 0)).toEqual([0, 3])
+    expect(blocksIn(hierarchy, 1)).toEqual([1, 3])
+    expect(read(hierarchy, 0).servedBy).toBe(0)
+  })
+
+  it("exclusive: moves L1 victims down and L2 hits up", () => {
+    const hierarchy = twoLevels("exclusive")
+    expect(read(hierarchy, 0).servedBy).toBe(2)
+    expect(blocksIn(hierarchy, 1)).toEqual([]) // Memory fills L1 only
+
+    expect(read(hierarchy, 2).sideEffects).toContainEqual({ kind: "moved", blockAddress: 0, from: 0, to: 1 })
+    expect(blocksIn(hierarchy, 1)).toEqual([0])
+
+    const access = read(hierarchy, 0)
+    expect(access.servedBy).toBe(1)
+    expect(access.sideEffects).toContainEqual({ kind: "moved", blockAddress: 0, from: 1, to: 0 })
+    expect(blocksIn(hierarchy, 0)).toEqual([0])
+    expect(blocksIn(hierarchy, 1)).toEqual([2])
+  })
+
+  it("counts memory traffic in blocks and bytes", () => {
+    const hierarchy = twoLevels("nine")
+    read(hierarchy, 0)
+    read(hierarchy, 1)
+    hierarchy.access(0, "write")
+
+    // 2 takes L1's set from the dirty 0, which is written back to L2 and, as
+    // L2's least recently used block, on to memory
+    const access = read(hierarchy, 2)
+    expect(access.sideEffects).toEqual([
+      { kind: "writeback", blockAddress: 0, from: 0, to: 1 },
+      { kind: "writeback", blockAddress: 0, from: 1, to: 2 },
+    ])
+    expect(hierarchy.getTraffic()).toEqual({ reads: 3, writes: 1, bytesRead: 24, bytesWritten: 8 })
+  })
+})
@@ -0,0 +1,409 @@
+import { ACCESS_TYPES, DEFAULT_SEED, INCLUSION_POLICIES, LEVEL_NAMES, WRITE_POLICIES } from "./constants"
+import { blockByteRange } from "./geometry"
+import type { FutureTrace } from "./future"
+import { levelSeed } from "./random"
+import { CacheSimulator } from "./simulator"
+import type {
+  AccessResult,
+  AccessType,
+  CacheConfig,
+  CacheLine,
+  CacheStatsSnapshot,
+  DuelSnapshot,
+  EvictedBlock,
+  InclusionPolicy,
+  PolicyListsSnapshot,
+  MemoryTrafficSnapshot,
+  SimulatorOptions,
+  TimelineAccess,
+} from "./types"
+
+type WriteKind = "writeback" | "write-through" | "write-around"
+
+// Changes an access causes in levels other than the ones it looked up
+export type SideEffect =
+  | { kind: "invalidated"; level: number; blockAddress: number } // Inclusive back-invalidation
+  | { kind: "moved"; blockAddress: number; from: number; to: number } // Exclusive swap, `to` may be memory
+  | { kind: WriteKind; blockAddress: number; from: number; to: number } // Data written to a lower level
+
+export interface HierarchyAccessResult {
+  address: number
+  type: AccessType
+  levels: AccessResult[] // One entry per level consulted, L1 first
+  servedBy: number // Index of the level that hit, or the level count for main memory
+  sideEffects: SideEffect[]
+}
+
+// Everything the UI draws, copied out of the hierarchy after an access. Each
+// array has one entry per level, L1 first.
+export interface HierarchySnapshot {
+  lines: CacheLine[][]
+  stats: CacheStatsSnapshot[]
+  traffic: MemoryTrafficSnapshot
+  nextUses: number[][]
+  policyBits: number[][][]
+  policyLists: Array<PolicyListsSnapshot | null>[]
+  clockHands: number[][]
+  agingCountdowns: Array<number | null>
+  duels: Array<DuelSnapshot | null>
+}
+
+// A snapshot for views that don't show OPT's next uses
+export type HierarchyState = Omit<HierarchySnapshot, "nextUses">
+
+// An access together with its outcome, as handed across a worker boundary
+export interface HierarchyStep {
+  access: HierarchyAccessResult
+  memoryWrites: number[] // Byte addresses written to main memory
+  snapshot: HierarchySnapshot
+}
+
+// Several accesses run back to back: what each did, and the state after the last
+export interface HierarchyRun {
+  steps: Array<Omit<HierarchyStep, "snapshot">>
+  snapshot: HierarchySnapshot
+}
+
+export interface HierarchyOptions extends SimulatorOptions {
+  inclusion?: InclusionPolicy
+}
+
+export const emptyTraffic = (): MemoryTrafficSnapshot => ({ reads: 0, writes: 0, bytesRead: 0, bytesWritten: 0 })
+
+export const levelName = (level: number, depth: number) => (level < depth ? LEVEL_NAMES[level] : "Memory")
+
+export function describeSideEffect(effect: SideEffect, depth: number) {
+  if (effect.kind === "invalidated") {
+    return `${levelName(effect.level, depth)} block ${effect.blockAddress} invalidated`
+  }
+  const route = `Block ${effect.blockAddress} ${levelName(effect.from, depth)} → ${levelName(effect.to, depth)}`
+  return effect.kind === "moved" ? route : `${route} (${effect.kind})`
+}
+
+// Returns a list of human-readable problems, empty when the levels can be combined
+export function validateHierarchy(configs: CacheConfig[], inclusion: InclusionPolicy): string[] {
+  const errors: string[] = []
+
+  configs.slice(1).forEach((config, i) => {
+    const upper = configs[i]
+    const name = LEVEL_NAMES[i + 1]
+
+    if (inclusion === INCLUSION_POLICIES.INCLUSIVE && config.blockSize < upper.blockSize) {
+      errors.push(`Inclusive caches need ${name} blocks at least as large as ${LEVEL_NAMES[i]} blocks`)
+    }
+    if (inclusion === INCLUSION_POLICIES.EXCLUSIVE && config.blockSize !== upper.blockSize) {
+      errors.push(`Exclusive caches need ${name} blocks the same size as ${LEVEL_NAMES[i]} blocks`)
+    }
+  })
+
+  return errors
+}
+
+// Chain of caches in front of main memory. An access walks down from L1 until
+// a level hits; what happens to the block and to evicted victims on the way
+// depends on the inclusion policy.
+export class CacheHierarchy {
+  readonly levels: CacheSimulator[]
+  readonly inclusion: InclusionPolicy
+
+  private traffic = emptyTraffic()
+
+  constructor(
+    configs: CacheConfig[],
+    { inclusion = INCLUSION_POLICIES.NINE, seed = DEFAULT_SEED, ...options }: HierarchyOptions = {},
+  ) {
+    if (configs.length === 0 || configs.length > LEVEL_NAMES.length) {
+      throw new Error(`A cache hierarchy needs between 1 and ${LEVEL_NAMES.length} levels`)
+    }
+
+    const errors = validateHierarchy(configs, inclusion)
+    if (errors.length > 0) {
+      throw new Error(`Invalid cache hierarchy: ${errors.join(", ")}`)
+    }
+
+    this.inclusion = inclusion
+    this.levels = configs.map(
+      (config, level) => new CacheSimulator(config, { ...options, seed: levelSeed(seed, level) }),
+    )
+  }
+
+  get depth() {
+    return this.levels.length
+  }
+
+  reset() {
+    this.levels.forEach((level) => level.reset())
+    this.traffic = emptyTraffic()
+  }
+
+  getLines(): CacheLine[][] {
+    return this.levels.map((level) => level.getLines())
+  }
+
+  getStats(): CacheStatsSnapshot[] {
+    return this.levels.map((level) => level.getStats())
+  }
+
+  // Every level looks ahead in the program's trace. Below L1 that is only an
+  // approximation of OPT, since those levels see just the misses from above.
+  setFuture(future: FutureTrace | null) {
+    this.levels.forEach((level) => level.setFuture(future))
+  }
+
+  getPolicyBits(): number[][][] {
+    return this.levels.map((level) => level.getPolicyBits())
+  }
+
+  getPolicyLists(): Array<PolicyListsSnapshot | null>[] {
+    return this.levels.map((level) => level.getPolicyLists())
+  }
+
+  getClockHands(): number[][] {
+    return this.levels.map((level) => level.getClockHands())
+  }
+
+  getAccessesUntilAging(): Array<number | null> {
+    return this.levels.map((level) => level.getAccessesUntilAging())
+  }
+
+  getDuelStates(): Array<DuelSnapshot | null> {
+    return this.levels.map((level) => level.getDuelState())
+  }
+
+  getNextUses(): number[][] {
+    return this.levels.map((level) => level.getNextUses())
+  }
+
+  getTraffic(): MemoryTrafficSnapshot {
+    return { ...this.traffic }
+  }
+
+  snapshot(): HierarchySnapshot {
+    return { ...this.state(), nextUses: this.getNextUses() }
+  }
+
+  // A snapshot without the next uses, which take a trace lookup per line
+  state(): HierarchyState {
+    return {
+      lines: this.getLines(),
+      stats: this.getStats(),
+      traffic: this.getTraffic(),
+      policyBits: this.getPolicyBits(),
+      policyLists: this.getPolicyLists(),
+      clockHands: this.getClockHands(),
+      agingCountdowns: this.getAccessesUntilAging(),
+      duels: this.getDuelStates(),
+    }
+  }
+
+  // Runs an access and captures everything needed to show it
+  step(address: number, type: AccessType = ACCESS_TYPES.READ, position?: number): HierarchyStep {
+    const access = this.access(address, type, position)
+    return { access, memoryWrites: this.memoryWrites(access), snapshot: this.snapshot() }
+  }
+
+  // Runs accesses without copying out the state between them
+  run(accesses: TimelineAccess[]): HierarchyRun {
+    const steps = accesses.map(({ address, type, position }) => {
+      const access = this.access(address, type, position)
+      return { access, memoryWrites: this.memoryWrites(access) }
+    })
+    return { steps, snapshot: this.snapshot() }
+  }
+
+  // Byte addresses of the blocks an access wrote to main memory
+  memoryWrites(access: HierarchyAccessResult): number[] {
+    return access.sideEffects.flatMap((effect) =>
+      effect.kind !== "invalidated" && effect.kind !== "moved" && effect.to === this.depth
+        ? [effect.blockAddress * this.levels[effect.from].config.blockSize]
+        : [],
+    )
+  }
+
+  // `position` is the access's index in the loaded trace, if it came from one
+  access(address: number, type: AccessType = ACCESS_TYPES.READ, position?: number): HierarchyAccessResult {
+    const access =
+      this.inclusion === INCLUSION_POLICIES.EXCLUSIVE && this.depth > 1
+        ? this.accessExclusive(address, type, position)
+        : this.accessShared(address, type, position)
+
+    // A block comes from memory when no level had it and some level took it in
+    const deepestFill = access.levels.findLastIndex((result) => result.filled)
+    if (access.servedBy === this.depth && deepestFill !== -1) {
+      this.traffic.reads += 1
+      this.traffic.bytesRead += this.levels[deepestFill].config.blockSize
+    }
+    for (const effect of access.sideEffects) {
+      if (effect.kind !== "invalidated" && effect.kind !== "moved" && effect.to === this.depth) {
+        this.traffic.writes += 1
+        this.traffic.bytesWritten += this.levels[effect.from].config.blockSize
+      }
+    }
+
+    return access
+  }
+
+  // Inclusive and NINE both fill every level that missed. A store is handled
+  // by the first level that hits or allocates it; the levels below that just
+  // supply the block. Levels that write around pass the store itself down.
+  private accessShared(address: number, type: AccessType, position?: number): HierarchyAccessResult {
+    const results: AccessResult[] = []
+    const sideEffects: SideEffect[] = []
+    let servedBy = this.depth
+    let request = type
+    let writer = -1 // Level that took the store
+
+    for (const [i, level] of this.levels.entries()) {
+      const result = level.access(address, { type: request, position })
+      results.push(result)
+
+      if (result.victim) {
+        this.evict(i, result.victim, sideEffects)
+      }
+
+      if (result.result === "hit" || result.filled) {
+        if (request === ACCESS_TYPES.WRITE) writer = i
+        request = ACCESS_TYPES.READ
+      }
+
+      if (result.result === "hit") {
+        servedBy = i
+        break
+      }
+    }
+
+    this.finishWrite(type, writer, results, sideEffects)
+    return { address, type, levels: results, servedBy, sideEffects }
+  }
+
+  // A block lives in at most one level. Hits below L1 move the block up, and
+  // every victim is pushed one level down, falling out of the last level.
+  // Stores that write around L1 update a lower copy where it is instead.
+  private accessExclusive(address: number, type: AccessType, position?: number): HierarchyAccessResult {
+    const first = this.levels[0].access(address, { type, position })
+    const results: AccessResult[] = [first]
+    const sideEffects: SideEffect[] = []
+    const takesStore = first.result === "hit" || first.filled
+    const request = takesStore ? ACCESS_TYPES.READ : type
+    let writer = takesStore && type === ACCESS_TYPES.WRITE ? 0 : -1
+
+    let servedBy = first.result === "hit" ? 0 : this.depth
+    for (let i = 1; i < this.depth && servedBy === this.depth; i++) {
+      const result = this.levels[i].access(address, { allocate: false, type: request, position })
+      results.push(result)
+
+      if (result.result !== "hit") continue
+      servedBy = i
+
+      if (request === ACCESS_TYPES.WRITE) {
+        writer = i
+        continue
+      }
+
+      const line = this.levels[i].invalidate(result.blockAddress)
+      sideEffects.push({ kind: "moved", blockAddress: result.blockAddress, from: i, to: 0 })
+
+      // Dirty data moving up stays dirty, unless L1 can't hold dirty lines
+      if (line?.dirty && this.isWriteThrough(0)) {
+        this.writeDown(0, result.blockAddress, "write-through", sideEffects)
+      } else if (line?.dirty) {
+        this.levels[0].absorbWrite(address)
+      }
+    }
+
+    let victim = first.victim
+    for (let i = 1; victim; i++) {
+      if (i === this.depth) {
+        if (victim.dirty) {
+          this.writeDown(i - 1, victim.blockAddress, "writeback", sideEffects)
+        } else {
+          sideEffects.push({ kind: "moved", blockAddress: victim.blockAddress, from: i - 1, to: i })
+        }
+        break
+      }
+
+      sideEffects.push({ kind: "moved", blockAddress: victim.blockAddress, from: i - 1, to: i })
+      const keepsDirty = victim.dirty && !this.isWriteThrough(i)
+      const next = this.levels[i].insert(victim.blockAddress, keepsDirty).victim
+      if (victim.dirty && !keepsDirty) {
+        this.writeDown(i, victim.blockAddress, "write-through", sideEffects)
+      }
+      victim = next
+    }
+
+    this.finishWrite(type, writer, results, sideEffects)
+    return { address, type, levels: results, servedBy, sideEffects }
+  }
+
+  // Sends a store on from the level that took it, or straight to memory when
+  // every level wrote around it
+  private finishWrite(type: AccessType, writer: number, results: AccessResult[], sideEffects: SideEffect[]) {
+    if (type !== ACCESS_TYPES.WRITE) return
+
+    if (writer === -1) {
+      const last = results.length - 1
+      sideEffects.push({ kind: "write-around", blockAddress: results[last].blockAddress, from: last, to: this.depth })
+    } else if (this.isWriteThrough(writer)) {
+      this.writeDown(writer, results[writer].blockAddress, "write-through", sideEffects)
+    }
+  }
+
+  private isWriteThrough(level: number) {
+    return this.levels[level].config.writePolicy === WRITE_POLICIES.WRITE_THROUGH
+  }
+
+  // Handles a block leaving a level in an inclusive or NINE hierarchy
+  private evict(level: number, victim: EvictedBlock, sideEffects: SideEffect[]) {
+    let dirty = victim.dirty
+    if (this.inclusion === INCLUSION_POLICIES.INCLUSIVE && level > 0) {
+      dirty = this.backInvalidate(level, victim.blockAddress, sideEffects) || dirty
+    }
+    if (dirty) {
+      this.writeDown(level, victim.blockAddress, "writeback", sideEffects)
+    }
+  }
+
+  // Sends a block's data below `from`. The first level holding the block takes
+  // it; a write-through level keeps passing it on, and main memory takes
+  // whatever nobody held. Block addresses are in units of the sending level.
+  private writeDown(from: number, blockAddress: number, kind: WriteKind, sideEffects: SideEffect[]) {
+    const address = blockAddress * this.levels[from].config.blockSize
+    let source = from
+
+    const record = (to: number) => {
+      const sourceBlock = Math.floor(address / this.levels[source].config.blockSize)
+      sideEffects.push({ kind, blockAddress: sourceBlock, from: source, to })
+    }
+
+    for (let i = from + 1; i < this.depth; i++) {
+      if (!this.levels[i].absorbWrite(address)) continue
+
+      record(i)
+      if (!this.isWriteThrough(i)) return
+      source = i
+      kind = "write-through"
+    }
+
+    record(this.depth)
+  }
+
+  // Removes every copy of an evicted block from the levels above, keeping them
+  // a subset of this one. Returns whether any of the copies was dirty.
+  private backInvalidate(level: number, blockAddress: number, sideEffects: SideEffect[]): boolean {
+    const { start, end } = blockByteRange(blockAddress, this.levels[level].config.blockSize)
+    let dirty = false
+
+    for (let upper = 0; upper < level; upper++) {
+      const blockSize = this.levels[upper].config.blockSize
+      for (let block = Math.floor(start / blockSize); block <= Math.floor(end / blockSize); block++) {
+        const line = this.levels[upper].invalidate(block)
+        if (line) {
+          sideEffects.push({ kind: "invalidated", level: upper, blockAddress: block })
+          dirty = dirty || line.dirty
+        }
+      }
+    }
+
+    return dirty
+  }
+}
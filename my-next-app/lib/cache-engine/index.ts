@@ -0,0 +1,41 @@
+export * from "./constants"
+export * from "./types"
+export * from "./geometry"
+export { isPolicyAvailable, rankLines, validateReplacementOptions } from "./replacement"
+export { maxRrpv } from "./rrip"
+export { FutureTrace } from "./future"
+export { levelSeed, randomSeed, seedRange, seededRandom, validateSeed } from "./random"
+export { sweepSeeds, type SeedRun, type SeedSweep } from "./seeds"
+export {
+  backgroundFileLimit,
+  simulateTrace,
+  validatePasses,
+  type BackgroundProgress,
+  type BackgroundResult,
+  type BackgroundSample,
+} from "./background"
+export { PATTERN_PARAMS, generateTrace, highestGeneratedAddress, validateGeneratorParams } from "./generators"
+export { DEFAULT_LOOP_NEST_SOURCE, compileLoopNest, type CompiledLoopNest } from "./loop-nest"
+export { detectTraceFormat, parseAddressList, parseTraceFile, type ParsedTrace, type TraceFileOptions } from "./trace"
+export { CacheSimulator, emptyStats } from "./simulator"
+export {
+  DEFAULT_CUSTOM_POLICY_SOURCE,
+  type PolicyContext,
+  type PolicyLineView,
+  type ReplacementPolicyPlugin,
+} from "./plugin"
+export { LocalRunner, type HierarchyRunner, type RunnerOptions } from "./runner"
+export {
+  CacheHierarchy,
+  describeSideEffect,
+  emptyTraffic,
+  levelName,
+  validateHierarchy,
+  type HierarchyAccessResult,
+  type HierarchyOptions,
+  type HierarchyRun,
+  type HierarchySnapshot,
+  type HierarchyState,
+  type HierarchyStep,
+  type SideEffect,
+} from "./hierarchy"
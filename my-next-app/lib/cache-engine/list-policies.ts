@@ -0,0 +1,234 @@
+import { REPLACEMENT_POLICIES } from "./constants"
+import type { PolicyListsSnapshot, ReplacementPolicy } from "./types"
+
+// Scan-resistant policies that split a set's blocks into several LRU lists,
+// some of which only remember block addresses (ghost entries) to notice when
+// an evicted block comes back. Lists hold block addresses, LRU end first.
+export interface ListPolicy {
+  // Called on a miss that fills the set. Returns the block to evict when the
+  // set is full, and files the new block in the right list.
+  admit(blockAddress: number, full: boolean): number | null
+  hit(blockAddress: number): void
+  // Forgets a block that left the set without being chosen as a victim
+  remove(blockAddress: number): void
+  snapshot(): PolicyListsSnapshot
+}
+
+const without = (list: number[], blockAddress: number) => list.filter((block) => block !== blockAddress)
+
+// Moves a block to the MRU end, removing it first if it is already there
+const touch = (list: number[], blockAddress: number) => [...without(list, blockAddress), blockAddress]
+
+// Segmented LRU: new blocks start in the probationary segment and are promoted
+// to the protected segment when hit again. Protected overflow is demoted back
+// to probation, so a scan of single-use blocks can only evict other newcomers.
+class SegmentedLru implements ListPolicy {
+  private probationary: number[] = []
+  private protected: number[] = []
+  private readonly protectedCapacity: number
+
+  constructor(ways: number) {
+    this.protectedCapacity = Math.max(1, Math.floor(ways / 2))
+  }
+
+  admit(blockAddress: number, full: boolean) {
+    let victim: number | null = null
+    if (full) {
+      const segment = this.probationary.length > 0 ? this.probationary : this.protected
+      victim = segment.shift() ?? null
+    }
+    this.probationary.push(blockAddress)
+    return victim
+  }
+
+  hit(blockAddress: number) {
+    if (this.protected.includes(blockAddress)) {
+      this.protected = touch(this.protected, blockAddress)
+      return
+    }
+
+    this.probationary = without(this.probationary, blockAddress)
+    this.protected.push(blockAddress)
+    if (this.protected.length > this.protectedCapacity) {
+      this.probationary.push(this.protected.shift() as number)
+    }
+  }
+
+  remove(blockAddress: number) {
+    this.probationary = without(this.probationary, blockAddress)
+    this.protected = without(this.protected, blockAddress)
+  }
+
+  snapshot(): PolicyListsSnapshot {
+    return {
+      lists: [
+        { name: "Probationary", blocks: [...this.probationary], ghost: false },
+        { name: "Protected", blocks: [...this.protected], ghost: false, capacity: this.protectedCapacity },
+      ],
+    }
+  }
+}
+
+// 2Q: first-time blocks go through a small FIFO (A1in). Blocks evicted from it
+// are remembered in a ghost FIFO (A1out), and only a block that comes back
+// while still remembered is admitted to the main LRU list (Am).
+class TwoQueue implements ListPolicy {
+  private a1in: number[] = []
+  private a1out: number[] = []
+  private am: number[] = []
+  private readonly inCapacity: number
+  private readonly outCapacity: number
+
+  constructor(ways: number) {
+    this.inCapacity = Math.max(1, Math.floor(ways / 4))
+    this.outCapacity = Math.max(1, Math.floor(ways / 2))
+  }
+
+  admit(blockAddress: number, full: boolean) {
+    const remembered = this.a1out.includes(blockAddress)
+
+    let victim: number | null = null
+    if (full && (this.a1in.length > this.inCapacity || this.am.length === 0)) {
+      victim = this.a1in.shift() ?? null
+      if (victim !== null) this.a1out.push(victim)
+      if (this.a1out.length > this.outCapacity) this.a1out.shift()
+    } else if (full) {
+      victim = this.am.shift() ?? null
+    }
+
+    if (remembered) {
+      this.a1out = without(this.a1out, blockAddress)
+      this.am.push(blockAddress)
+    } else {
+      this.a1in.push(blockAddress)
+    }
+    return victim
+  }
+
+  // Hits in A1in are ignored, a block has to be evicted once to prove it is reused
+  hit(blockAddress: number) {
+    if (this.am.includes(blockAddress)) {
+      this.am = touch(this.am, blockAddress)
+    }
+  }
+
+  remove(blockAddress: number) {
+    this.a1in = without(this.a1in, blockAddress)
+    this.am = without(this.am, blockAddress)
+  }
+
+  snapshot(): PolicyListsSnapshot {
+    return {
+      lists: [
+        { name: "A1in", blocks: [...this.a1in], ghost: false, capacity: this.inCapacity },
+        { name: "Am", blocks: [...this.am], ghost: false },
+        { name: "A1out", blocks: [...this.a1out], ghost: true, capacity: this.outCapacity },
+      ],
+    }
+  }
+}
+
+// ARC: T1 holds blocks seen once recently and T2 blocks seen at least twice.
+// Their ghosts B1 and B2 remember what each list evicted. A miss that hits a
+// ghost moves the target size p of T1 towards the list that would have kept
+// the block, so the cache balances recency against frequency by itself.
+class AdaptiveReplacementCache implements ListPolicy {
+  private t1: number[] = []
+  private t2: number[] = []
+  private b1: number[] = []
+  private b2: number[] = []
+  private target = 0 // p, the size T1 is steered towards
+  private readonly capacity: number
+
+  constructor(ways: number) {
+    this.capacity = ways
+  }
+
+  admit(blockAddress: number, full: boolean) {
+    const c = this.capacity
+    let victim: number | null = null
+
+    if (this.b1.includes(blockAddress)) {
+      this.target = Math.min(c, this.target + Math.max(1, Math.floor(this.b2.length / this.b1.length)))
+      this.b1 = without(this.b1, blockAddress)
+      if (full) victim = this.replace(false)
+      this.t2.push(blockAddress)
+      return victim
+    }
+
+    if (this.b2.includes(blockAddress)) {
+      this.target = Math.max(0, this.target - Math.max(1, Math.floor(this.b1.length / this.b2.length)))
+      this.b2 = without(this.b2, blockAddress)
+      if (full) victim = this.replace(true)
+      this.t2.push(blockAddress)
+      return victim
+    }
+
+    // A brand new block, first keep the ghosts within their bounds
+    const total = this.t1.length + this.t2.length + this.b1.length + this.b2.length
+    if (this.t1.length + this.b1.length >= c) {
+      if (this.t1.length < c) {
+        this.b1.shift()
+      } else if (full) {
+        // T1 fills the whole set, so its LRU block goes without leaving a ghost
+        victim = this.t1.shift() ?? null
+      }
+    } else if (total >= 2 * c) {
+      this.b2.shift()
+    }
+
+    if (full && victim === null) victim = this.replace(false)
+    this.t1.push(blockAddress)
+    return victim
+  }
+
+  // Evicts from T1 while it is above its target, otherwise from T2
+  private replace(fromB2: boolean): number | null {
+    const t1Over = this.t1.length > this.target || (fromB2 && this.t1.length === this.target)
+    if (this.t1.length > 0 && (t1Over || this.t2.length === 0)) {
+      const victim = this.t1.shift() as number
+      this.b1.push(victim)
+      return victim
+    }
+
+    const victim = this.t2.shift() ?? null
+    if (victim !== null) this.b2.push(victim)
+    return victim
+  }
+
+  hit(blockAddress: number) {
+    this.t1 = without(this.t1, blockAddress)
+    this.t2 = touch(this.t2, blockAddress)
+  }
+
+  remove(blockAddress: number) {
+    this.t1 = without(this.t1, blockAddress)
+    this.t2 = without(this.t2, blockAddress)
+  }
+
+  snapshot(): PolicyListsSnapshot {
+    return {
+      lists: [
+        { name: "B1", blocks: [...this.b1], ghost: true },
+        { name: "T1", blocks: [...this.t1], ghost: false },
+        { name: "T2", blocks: [...this.t2], ghost: false },
+        { name: "B2", blocks: [...this.b2], ghost: true },
+      ],
+      target: this.target,
+    }
+  }
+}
+
+// List state for one set, null for policies that don't keep lists
+export function createListPolicy(policy: ReplacementPolicy, ways: number): ListPolicy | null {
+  switch (policy) {
+    case REPLACEMENT_POLICIES.SLRU:
+      return new SegmentedLru(ways)
+    case REPLACEMENT_POLICIES.TWO_Q:
+      return new TwoQueue(ways)
+    case REPLACEMENT_POLICIES.ARC:
+      return new AdaptiveReplacementCache(ways)
+    default:
+      return null
+  }
+}
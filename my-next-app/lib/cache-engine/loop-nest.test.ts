@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest"
+import { MAX_TRACE_ACCESSES } from "./constants"
+import { compileLoopNest } from "./loop-nest"
+
+describe("compileLoopNest", () => {
+  it("emits the loads and stores of each statement in program order", () => {
+    const source = ["int A[4] at 0;", "int B[4] at 64;", "for (int i = 0; i < 2; i++) {", "  B[i] = A[i + 1];", "}"]
+    const { entries, errors } = compileLoopNest(source.join("\n"), 255)
+    expect(errors).toEqual([])
+    expect(entries.map(({ type, address }) => [type, address])).toEqual([
+      ["read", 4],
+      ["write", 64],
+      ["read", 8],
+      ["write", 68],
+    ])
+  })
+
+  it("refuses programs that make more accesses than a trace may hold", () => {
+    const source = "int A[1000];\nfor (int i = 0; i < 1000; i++)\n  for (int j = 0; j < 101; j++)\n    A[i];"
+    const { entries, errors } = compileLoopNest(source, 0xffff)
+    expect(entries).toEqual([])
+    expect(errors).toHaveLength(1)
+    expect(errors[0]).toMatch(`The program makes more than ${MAX_TRACE_ACCESSES} accesses`)
+  })
+})
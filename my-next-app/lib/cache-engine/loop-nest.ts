@@ -0,0 +1,457 @@
+import { ACCESS_TYPES, ARRAY_LAYOUTS, ELEMENT_TYPE_SIZES, MAX_LOOP_ITERATIONS, MAX_TRACE_ACCESSES } from "./constants"
+import type { ParsedTrace } from "./trace"
+import type { AccessType, ArrayDeclaration, ArrayLayout, TraceAccess } from "./types"
+
+export interface CompiledLoopNest extends ParsedTrace {
+  arrays: ArrayDeclaration[]
+}
+
+export const DEFAULT_LOOP_NEST_SOURCE = `// Transpose: A is read along its rows, B is written down its columns
+int A[8][8] at 0;
+int B[8][8] at 256;
+
+for (int i = 0; i < 8; i++) {
+  for (int j = 0; j < 8; j++) {
+    B[j][i] = A[i][j];
+  }
+}
+`
+
+interface Position {
+  line: number
+  column: number
+  offset: number
+}
+
+interface Token extends Position {
+  kind: "number" | "name" | "symbol" | "end"
+  text: string
+}
+
+// One reference to an array element, e.g. A[i + 1][j]
+interface ElementRef {
+  array: ArrayDeclaration
+  indices: Expression[]
+  at: Position
+  end: number
+}
+
+type Expression =
+  | { kind: "number"; value: number }
+  | { kind: "variable"; name: string }
+  | { kind: "scalar" } // Plain variables hold values the compiler doesn't track
+  | { kind: "element"; ref: ElementRef }
+  | { kind: "negate"; operand: Expression }
+  | { kind: "binary"; operator: string; left: Expression; right: Expression; at: Position }
+
+type Statement =
+  | {
+      kind: "loop"
+      variable: string
+      start: Expression
+      comparison: string
+      limit: Expression
+      step: Expression // Added to the variable after each iteration
+      body: Statement[]
+      at: Position
+    }
+  // A store to `target`, or none when the target is a scalar. Compound
+  // assignments and ++/-- read the target first.
+  | { kind: "assign"; target: ElementRef | null; readsTarget: boolean; value: Expression | null }
+  // An expression on its own, only its reads matter
+  | { kind: "evaluate"; value: Expression }
+
+const TOKEN_PATTERN =
+  /(\s+|\/\/[^\n]*|\/\*[\s\S]*?(?:\*\/|$))|(0x[0-9a-fA-F]+|\d+)|([A-Za-z_]\w*)|(\+=|-=|\*=|\/=|%=|\+\+|--|<=|>=|!=|[-+*/%<>=[\](){};])/y
+
+const COMPARISONS = ["<", "<=", ">", ">=", "!="]
+const COMPOUND_ASSIGNMENTS = ["+=", "-=", "*=", "/=", "%="]
+const LAYOUT_KEYWORDS: Record<string, ArrayLayout> = {
+  row_major: ARRAY_LAYOUTS.ROW_MAJOR,
+  col_major: ARRAY_LAYOUTS.COLUMN_MAJOR,
+}
+
+// Own keys only, so names like "constructor" aren't taken for keywords
+const isKeyword = (keywords: Record<string, unknown>, text: string) =>
+  Object.prototype.hasOwnProperty.call(keywords, text)
+
+const fail = (at: Position, message: string): never => {
+  throw new Error(`Line ${at.line}, column ${at.column}: ${message}`)
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = []
+  let line = 1
+  let lineStart = 0
+  TOKEN_PATTERN.lastIndex = 0
+
+  while (TOKEN_PATTERN.lastIndex < source.length) {
+    const offset = TOKEN_PATTERN.lastIndex
+    const at = { line, column: offset - lineStart + 1, offset }
+    const match = TOKEN_PATTERN.exec(source)
+    if (!match) return fail(at, `Unexpected character "${source[offset]}"`)
+
+    // Whitespace and comments only move the line count along
+    for (let i = match[0].indexOf("\n"); i !== -1; i = match[0].indexOf("\n", i + 1)) {
+      line += 1
+      lineStart = offset + i + 1
+    }
+    if (match[1] !== undefined) continue
+
+    const kind = match[2] !== undefined ? "number" : match[3] !== undefined ? "name" : "symbol"
+    tokens.push({ kind, text: match[0], ...at })
+  }
+
+  tokens.push({
+    kind: "end",
+    text: "end of program",
+    line,
+    column: source.length - lineStart + 1,
+    offset: source.length,
+  })
+  return tokens
+}
+
+// Reads the whole program into arrays and statements, catching unknown names
+// and indices that can't be worked out before anything runs
+function parse(tokens: Token[], maxAddress: number) {
+  const arrays = new Map<string, ArrayDeclaration>()
+  const scalars = new Set<string>()
+  const loopVariables: string[] = []
+  let nextFree = 0 // Arrays without an `at` go after the previous one
+  let position = 0
+
+  const peek = () => tokens[position]
+  const next = () => tokens[position++]
+  const accept = (text: string) => {
+    if (peek().text !== text) return false
+    position += 1
+    return true
+  }
+  const expect = (text: string) => {
+    if (!accept(text)) fail(peek(), `Expected "${text}" but found "${peek().text}"`)
+  }
+  const expectNumber = (what: string) => {
+    const token = next()
+    if (token.kind !== "number") fail(token, `Expected ${what} but found "${token.text}"`)
+    return Number(token.text)
+  }
+  const expectName = () => {
+    const token = next()
+    if (token.kind !== "name") fail(token, `Expected a name but found "${token.text}"`)
+    return token
+  }
+  const checkUnused = (token: Token) => {
+    if (arrays.has(token.text) || scalars.has(token.text) || loopVariables.includes(token.text)) {
+      fail(token, `${token.text} is already declared`)
+    }
+    if (
+      isKeyword(ELEMENT_TYPE_SIZES, token.text) ||
+      isKeyword(LAYOUT_KEYWORDS, token.text) ||
+      ["for", "at"].includes(token.text)
+    ) {
+      fail(token, `${token.text} is a keyword`)
+    }
+  }
+
+  // Index expressions and loop bounds must be known up front, so they may
+  // only use numbers and loop variables
+  const parseExpression = (isIndex: boolean): Expression => {
+    let left = parseTerm(isIndex)
+    while (peek().text === "+" || peek().text === "-") {
+      const at = next()
+      left = { kind: "binary", operator: at.text, left, right: parseTerm(isIndex), at }
+    }
+    return left
+  }
+
+  const parseTerm = (isIndex: boolean): Expression => {
+    let left = parseFactor(isIndex)
+    while (["*", "/", "%"].includes(peek().text)) {
+      const at = next()
+      left = { kind: "binary", operator: at.text, left, right: parseFactor(isIndex), at }
+    }
+    return left
+  }
+
+  const parseFactor = (isIndex: boolean): Expression => {
+    const token = next()
+    if (token.kind === "number") return { kind: "number", value: Number(token.text) }
+    if (token.text === "-") return { kind: "negate", operand: parseFactor(isIndex) }
+    if (token.text === "(") {
+      const inner = parseExpression(isIndex)
+      expect(")")
+      return inner
+    }
+    if (token.kind !== "name") return fail(token, `Expected a value but found "${token.text}"`)
+
+    if (loopVariables.includes(token.text)) return { kind: "variable", name: token.text }
+    if (isIndex && (arrays.has(token.text) || scalars.has(token.text))) {
+      fail(token, `${token.text} can't be used here, only numbers and loop variables can`)
+    }
+    if (scalars.has(token.text)) return { kind: "scalar" }
+    if (arrays.has(token.text)) return { kind: "element", ref: parseElement(token) }
+    return fail(token, `${token.text} is not declared`)
+  }
+
+  const parseElement = (name: Token): ElementRef => {
+    const array = arrays.get(name.text)!
+    const indices: Expression[] = []
+    while (peek().text === "[") {
+      next()
+      indices.push(parseExpression(true))
+      expect("]")
+    }
+    if (indices.length !== array.dimensions.length) {
+      const declared = `${array.name}[${array.dimensions.join("][")}]`
+      fail(
+        name,
+        `${declared} needs ${array.dimensions.length === 1 ? "1 index" : `${array.dimensions.length} indices`}`,
+      )
+    }
+    return { array, indices, at: name, end: tokens[position - 1].offset + 1 }
+  }
+
+  // int A[8][8] at 0x100 col_major; or a scalar such as int sum = 0;
+  const parseDeclaration = (): Statement[] => {
+    const elementSize = ELEMENT_TYPE_SIZES[next().text]
+    const name = expectName()
+    checkUnused(name)
+
+    if (peek().text !== "[") {
+      scalars.add(name.text)
+      const value = accept("=") ? parseExpression(false) : null
+      expect(";")
+      return value ? [{ kind: "evaluate", value }] : []
+    }
+
+    const dimensions: number[] = []
+    while (accept("[")) {
+      const at = peek()
+      const size = expectNumber("an array size")
+      if (size < 1) fail(at, "Array sizes must be at least 1")
+      dimensions.push(size)
+      expect("]")
+    }
+
+    let base = Math.ceil(nextFree / elementSize) * elementSize
+    if (accept("at")) base = expectNumber("a base address")
+    const layout = isKeyword(LAYOUT_KEYWORDS, peek().text) ? LAYOUT_KEYWORDS[next().text] : ARRAY_LAYOUTS.ROW_MAJOR
+    expect(";")
+
+    const end = base + dimensions.reduce((product, size) => product * size, elementSize) - 1
+    if (end > maxAddress) fail(name, `${name.text} ends at address ${end}, above the largest address ${maxAddress}`)
+    arrays.set(name.text, { name: name.text, dimensions, elementSize, base, layout })
+    nextFree = Math.max(nextFree, end + 1)
+    return []
+  }
+
+  // for (int i = 0; i < n; i++) with ++, --, += or -= as the step
+  const parseLoop = (): Statement => {
+    const at = next()
+    expect("(")
+    if (isKeyword(ELEMENT_TYPE_SIZES, peek().text)) next()
+    const name = expectName()
+    checkUnused(name)
+    expect("=")
+    const start = parseExpression(true)
+    expect(";")
+
+    loopVariables.push(name.text)
+    const conditionName = expectName()
+    if (conditionName.text !== name.text) fail(conditionName, `The condition must test ${name.text}`)
+    const comparison = next()
+    if (!COMPARISONS.includes(comparison.text)) fail(comparison, `Expected a comparison but found "${comparison.text}"`)
+    const limit = parseExpression(true)
+    expect(";")
+
+    const prefix = peek().text === "++" || peek().text === "--" ? next() : null
+    const stepName = expectName()
+    if (stepName.text !== name.text) fail(stepName, `The step must change ${name.text}`)
+    const operator = prefix ?? next()
+    let step: Expression
+    if (operator.text === "++" || operator.text === "--") {
+      step = { kind: "number", value: operator.text === "++" ? 1 : -1 }
+    } else if (!prefix && (operator.text === "+=" || operator.text === "-=")) {
+      const amount = parseExpression(true)
+      step = operator.text === "+=" ? amount : { kind: "negate", operand: amount }
+    } else {
+      step = fail(operator, `Expected ++, --, += or -= but found "${operator.text}"`)
+    }
+    expect(")")
+
+    const body = parseBody()
+    loopVariables.pop()
+    return { kind: "loop", variable: name.text, start, comparison: comparison.text, limit, step, body, at }
+  }
+
+  const parseBody = (): Statement[] => {
+    if (!accept("{")) return parseStatement()
+    const body: Statement[] = []
+    while (!accept("}")) {
+      if (peek().kind === "end") fail(peek(), `Expected "}" but found the end of the program`)
+      body.push(...parseStatement())
+    }
+    return body
+  }
+
+  // A[i] = ..., A[i] += ..., A[i]++, sum += ..., or a bare A[i] to read it
+  const parseAssignment = (): Statement => {
+    const name = expectName()
+    if (loopVariables.includes(name.text)) fail(name, `Loop variable ${name.text} can only change in its for header`)
+    if (!arrays.has(name.text) && !scalars.has(name.text)) fail(name, `${name.text} is not declared`)
+    const target = arrays.has(name.text) ? parseElement(name) : null
+
+    let statement: Statement
+    const operator = peek()
+    if (accept("=")) {
+      statement = { kind: "assign", target, readsTarget: false, value: parseExpression(false) }
+    } else if (COMPOUND_ASSIGNMENTS.includes(operator.text)) {
+      next()
+      statement = { kind: "assign", target, readsTarget: true, value: parseExpression(false) }
+    } else if (accept("++") || accept("--")) {
+      statement = { kind: "assign", target, readsTarget: true, value: null }
+    } else if (target) {
+      statement = { kind: "evaluate", value: { kind: "element", ref: target } }
+    } else {
+      statement = fail(operator, `Expected an assignment to ${name.text} but found "${operator.text}"`)
+    }
+    expect(";")
+    return statement
+  }
+
+  const parseStatement = (): Statement[] => {
+    const token = peek()
+    if (isKeyword(ELEMENT_TYPE_SIZES, token.text)) return parseDeclaration()
+    if (token.text === "for") return [parseLoop()]
+    if (token.text === "{") return parseBody()
+    if (token.kind === "name") return [parseAssignment()]
+    if (accept(";")) return []
+    return fail(token, `Expected a declaration, for loop or assignment but found "${token.text}"`)
+  }
+
+  const statements: Statement[] = []
+  while (peek().kind !== "end") statements.push(...parseStatement())
+  return { arrays: [...arrays.values()], statements }
+}
+
+// Runs the parsed program, recording every array element it reads or writes
+function execute(statements: Statement[], source: string) {
+  const entries: TraceAccess[] = []
+  const variables = new Map<string, number>()
+  let iterations = 0
+
+  const evaluate = (expression: Expression): number => {
+    switch (expression.kind) {
+      case "number":
+        return expression.value
+      case "variable":
+        return variables.get(expression.name)!
+      case "negate":
+        return -evaluate(expression.operand)
+      case "binary": {
+        const left = evaluate(expression.left)
+        const right = evaluate(expression.right)
+        if ((expression.operator === "/" || expression.operator === "%") && right === 0) {
+          return fail(expression.at, "Division by zero")
+        }
+        if (expression.operator === "+") return left + right
+        if (expression.operator === "-") return left - right
+        if (expression.operator === "*") return left * right
+        // Integer division truncates towards zero, as in C
+        return expression.operator === "/" ? Math.trunc(left / right) : left % right
+      }
+      default:
+        // The parser keeps scalars and elements out of indices and bounds
+        throw new Error(`Can't work out the value of a ${expression.kind} expression`)
+    }
+  }
+
+  const access = (ref: ElementRef, type: AccessType) => {
+    const { array } = ref
+    const indices = ref.indices.map(evaluate)
+    const element = `${array.name}[${indices.join("][")}]`
+    indices.forEach((index, i) => {
+      if (index < 0 || index >= array.dimensions[i]) {
+        fail(ref.at, `${element} is outside ${array.name}[${array.dimensions.join("][")}]`)
+      }
+    })
+    if (entries.length === MAX_TRACE_ACCESSES) {
+      fail(ref.at, `The program makes more than ${MAX_TRACE_ACCESSES} accesses`)
+    }
+
+    // Row-major order folds indices in from the first, column-major from the last
+    const order =
+      array.layout === ARRAY_LAYOUTS.ROW_MAJOR
+        ? indices.map((_, i) => i)
+        : indices.map((_, i) => indices.length - 1 - i)
+    const linear = order.reduce((sum, i) => sum * array.dimensions[i] + indices[i], 0)
+    entries.push({
+      address: array.base + linear * array.elementSize,
+      type,
+      source: {
+        line: ref.at.line,
+        start: ref.at.offset,
+        end: ref.end,
+        expression: source.slice(ref.at.offset, ref.end),
+        element,
+      },
+    })
+  }
+
+  // Reads every element an expression mentions, left to right
+  const read = (expression: Expression) => {
+    if (expression.kind === "element") access(expression.ref, ACCESS_TYPES.READ)
+    if (expression.kind === "negate") read(expression.operand)
+    if (expression.kind === "binary") {
+      read(expression.left)
+      read(expression.right)
+    }
+  }
+
+  const test = (value: number, comparison: string, limit: number) => {
+    if (comparison === "<") return value < limit
+    if (comparison === "<=") return value <= limit
+    if (comparison === ">") return value > limit
+    if (comparison === ">=") return value >= limit
+    return value !== limit
+  }
+
+  const run = (statement: Statement) => {
+    if (statement.kind === "evaluate") {
+      read(statement.value)
+    } else if (statement.kind === "assign") {
+      // The right-hand side is read first, then the target for compound assignments
+      if (statement.value) read(statement.value)
+      if (statement.target && statement.readsTarget) access(statement.target, ACCESS_TYPES.READ)
+      if (statement.target) access(statement.target, ACCESS_TYPES.WRITE)
+    } else {
+      const { variable, comparison } = statement
+      variables.set(variable, evaluate(statement.start))
+      while (test(variables.get(variable)!, comparison, evaluate(statement.limit))) {
+        iterations += 1
+        if (iterations > MAX_LOOP_ITERATIONS) {
+          fail(statement.at, `The loops run more than ${MAX_LOOP_ITERATIONS} iterations, check the step of this loop`)
+        }
+        statement.body.forEach(run)
+        variables.set(variable, variables.get(variable)! + evaluate(statement.step))
+      }
+      variables.delete(variable)
+    }
+  }
+
+  statements.forEach(run)
+  return entries
+}
+
+// Compiles a small C-like program of array declarations and for loops into the
+// loads and stores it makes. Every access records the array reference it came
+// from. The first error stops compilation.
+export function compileLoopNest(source: string, maxAddress: number): CompiledLoopNest {
+  try {
+    const { arrays, statements } = parse(tokenize(source), maxAddress)
+    return { entries: execute(statements, source), arrays, errors: [] }
+  } catch (error) {
+    return { entries: [], arrays: [], errors: [error instanceof Error ? error.message : String(error)] }
+  }
+}
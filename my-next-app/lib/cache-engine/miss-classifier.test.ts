@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest"
+import { CacheSimulator } from "./simulator"
+import type { CacheConfig, MappingType, ReplacementPolicy, WriteMissPolicy } from "./types"
+
+const BLOCK_SIZE = 8
+
+const cache = (
+  blocks: number,
+  mappingType: MappingType,
+  replacementPolicy: ReplacementPolicy = "lru",
+  writeMissPolicy: WriteMissPolicy = "write-allocate",
+) =>
+  new CacheSimulator({
+    capacity: blocks * BLOCK_SIZE,
+    blockSize: BLOCK_SIZE,
+    associativity: 1,
+    addressBits: 8,
+    mappingType,
+    replacementPolicy,
+    writePolicy: "write-back",
+    writeMissPolicy,
+  } satisfies CacheConfig)
+
+// Miss type of each access, "hit" for hits
+const classify = (simulator: CacheSimulator, blocks: number[]) =>
+  blocks.map((block) => {
+    const result = simulator.access(block * BLOCK_SIZE)
+    return result.result === "hit" ? "hit" : result.missType
+  })
+
+describe("3C miss classification", () => {
+  it("counts first touches as compulsory", () => {
+    expect(classify(cache(4, "direct"), [0, 1, 2, 3])).toEqual(Array(4).fill("compulsory"))
+  })
+
+  it("counts blocks a fully-associative LRU cache would still hold as conflict", () => {
+    // 0 and 4 share set 0 of a direct-mapped cache with room for four blocks
+    expect(classify(cache(4, "direct"), [0, 4, 0, 4])).toEqual(["compulsory", "compulsory", "conflict", "conflict"])
+  })
+
+  it("counts blocks that don't fit the cache at all as capacity", () => {
+    const blocks = [0, 1, 2, 3, 4, 0, 1]
+    expect(classify(cache(4, "fully-associative"), blocks)).toEqual([
+      ...Array(5).fill("compulsory"),
+      "capacity",
+      "capacity",
+    ])
+  })
+
+  it("never reports conflicts in a fully-associative cache, whatever its policy", () => {
+    // FIFO evicts 0 despite the hit, where the LRU shadow would have kept it
+    expect(classify(cache(2, "fully-associative", "fifo"), [0, 1, 0, 2, 0])).toEqual([
+      "compulsory",
+      "compulsory",
+      "hit",
+      "compulsory",
+      "capacity",
+    ])
+  })
+
+  it.each<MappingType>(["direct", "fully-associative"])(
+    "counts a load of a block last written around the %s cache as compulsory",
+    (mappingType) => {
+      const simulator = cache(4, mappingType, "lru", "no-write-allocate")
+      expect(simulator.access(0, { type: "write" })).toMatchObject({ missType: "compulsory", filled: false })
+      expect(classify(simulator, [0, 0])).toEqual(["compulsory", "hit"])
+    },
+  )
+
+  it("adds the classes up in the stats", () => {
+    const simulator = cache(4, "direct")
+    classify(simulator, [0, 4, 0, 1, 2, 3, 5, 6, 7, 4])
+    expect(simulator.getStats()).toEqual({
+      hits: 0,
+      compulsoryMisses: 8,
+      capacityMisses: 1,
+      conflictMisses: 1,
+      writebacks: 0,
+    })
+  })
+})
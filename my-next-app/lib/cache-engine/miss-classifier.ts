@@ -0,0 +1,46 @@
+import type { MissType } from "./types"
+
+// Classifies misses with the "three C" model. Every hit and fill is replayed
+// against an infinite cache (the set of blocks ever seen) and a
+// fully-associative LRU cache with the same number of blocks as the real one:
+//   - never seen before              -> compulsory
+//   - seen, but the shadow misses too -> capacity
+//   - seen, and the shadow would hit  -> conflict
+// A fully-associative cache has no conflicts by construction, so there a miss
+// the shadow would have hit is down to the policy and counts as capacity.
+export class MissClassifier {
+  private readonly capacity: number
+  private readonly fullyAssociative: boolean
+  private blocksEverSeen = new Set<number>()
+  // Map iteration order doubles as the LRU order, least recent first
+  private shadow = new Map<number, true>()
+
+  constructor(capacity: number, fullyAssociative = false) {
+    this.capacity = capacity
+    this.fullyAssociative = fullyAssociative
+  }
+
+  reset() {
+    this.blocksEverSeen = new Set()
+    this.shadow = new Map()
+  }
+
+  // How a miss on the block would be classified, without recording anything
+  classify(blockAddress: number): MissType {
+    if (!this.blocksEverSeen.has(blockAddress)) return "compulsory"
+    return this.shadow.has(blockAddress) && !this.fullyAssociative ? "conflict" : "capacity"
+  }
+
+  // Must be called whenever the real cache hits or fills a line, to keep the
+  // shadow in step. Misses that leave the cache untouched, like stores that
+  // write around it, aren't recorded: the block was never cached.
+  observe(blockAddress: number) {
+    this.blocksEverSeen.add(blockAddress)
+    this.shadow.delete(blockAddress)
+    this.shadow.set(blockAddress, true)
+    if (this.shadow.size > this.capacity) {
+      const lru = this.shadow.keys().next().value as number
+      this.shadow.delete(lru)
+    }
+  }
+}
@@ -0,0 +1,68 @@
+import { REPLACEMENT_POLICIES } from "./constants"
+import type { ReplacementPolicy } from "./types"
+
+// Pseudo-LRU state is a handful of bits per set instead of full timestamps.
+//
+// Tree-PLRU keeps ways - 1 bits in a binary tree stored heap style (node i has
+// children 2i + 1 and 2i + 2). Each bit points towards the half that should be
+// evicted next: 0 = left, 1 = right. Ways are always a power of two here.
+//
+// Bit-PLRU (MRU bits) keeps one bit per way, set when the way is used. When the
+// last bit would be set, all the others are cleared instead.
+//
+// CLOCK and NRU use the same one bit per way as reference bits, but leave
+// clearing them to the victim search or a periodic reset.
+
+export function policyBitCount(policy: ReplacementPolicy, ways: number) {
+  if (policy === REPLACEMENT_POLICIES.TREE_PLRU) return ways - 1
+  if (policy === REPLACEMENT_POLICIES.BIT_PLRU) return ways
+  if (policy === REPLACEMENT_POLICIES.CLOCK || policy === REPLACEMENT_POLICIES.NRU) return ways
+  return 0
+}
+
+// Updates a set's bits after a hit or fill of `way`
+export function touchPolicyBits(policy: ReplacementPolicy, bits: number[], way: number, ways: number) {
+  if (policy === REPLACEMENT_POLICIES.TREE_PLRU) {
+    // Walk down to the way, pointing every node on the path at the other half
+    let node = 0
+    let low = 0
+    let size = ways
+    while (size > 1) {
+      const half = size / 2
+      const goesRight = way >= low + half
+      bits[node] = goesRight ? 0 : 1
+      node = 2 * node + (goesRight ? 2 : 1)
+      low = goesRight ? low + half : low
+      size = half
+    }
+  } else if (policy === REPLACEMENT_POLICIES.BIT_PLRU) {
+    bits[way] = 1
+    if (!bits.includes(0)) {
+      bits.fill(0)
+      bits[way] = 1
+    }
+  } else if (policy === REPLACEMENT_POLICIES.CLOCK || policy === REPLACEMENT_POLICIES.NRU) {
+    bits[way] = 1
+  }
+}
+
+// Follows the tree bits down to a leaf
+export function treePlruVictim(bits: number[], ways: number): number {
+  let node = 0
+  let low = 0
+  let size = ways
+  while (size > 1) {
+    const half = size / 2
+    const goesRight = bits[node] === 1
+    node = 2 * node + (goesRight ? 2 : 1)
+    low = goesRight ? low + half : low
+    size = half
+  }
+  return low
+}
+
+// First way whose MRU bit is clear
+export function bitPlruVictim(bits: number[]): number {
+  const way = bits.indexOf(0)
+  return way === -1 ? 0 : way
+}
@@ -0,0 +1,102 @@
+import type { CustomPolicySource, PolicyMeta } from "./types"
+
+// What a custom policy sees of one line. `meta` is the line's own scratch
+// object, kept between calls and cleared when the line is refilled; the other
+// fields are read-only copies.
+export interface PolicyLineView {
+  readonly way: number
+  readonly valid: boolean
+  readonly blockAddress: number | null
+  readonly tag: number | null
+  readonly insertedAt: number
+  readonly lastUsed: number
+  readonly frequency: number
+  readonly dirty: boolean
+  meta: PolicyMeta
+}
+
+export interface PolicyContext {
+  readonly set: number
+  readonly ways: number
+  readonly time: number // Logical clock of the access being handled
+  readonly lines: PolicyLineView[] // Indexed by way
+  random: () => number
+}
+
+// A replacement policy written against a set's metadata. The engine calls
+// onHit and onFill after updating the line, and chooseVictim only when the
+// set is full.
+export interface ReplacementPolicyPlugin {
+  onHit?: (ctx: PolicyContext, way: number) => void
+  onFill?: (ctx: PolicyContext, way: number) => void
+  chooseVictim: (ctx: PolicyContext) => number
+}
+
+export const DEFAULT_CUSTOM_POLICY_SOURCE = `// Return an object with chooseVictim(ctx) and, optionally, onHit(ctx, way)
+// and onFill(ctx, way). ctx.lines[way].meta is yours to keep state in.
+// This example evicts the line with the fewest hits since its fill.
+return {
+  onFill(ctx, way) {
+    ctx.lines[way].meta.hits = 0
+  },
+  onHit(ctx, way) {
+    ctx.lines[way].meta.hits += 1
+  },
+  chooseVictim(ctx) {
+    let victim = 0
+    for (const line of ctx.lines) {
+      if (line.meta.hits < ctx.lines[victim].meta.hits) victim = line.way
+    }
+    return victim
+  },
+}
+`
+
+// Names the policy code can't reach. This only keeps honest code from
+// wandering off; the worker the code runs in is the actual boundary.
+const SHADOWED_GLOBALS = [
+  "self",
+  "globalThis",
+  "window",
+  "document",
+  "postMessage",
+  "close",
+  "importScripts",
+  "fetch",
+  "XMLHttpRequest",
+  "WebSocket",
+  "indexedDB",
+  "caches",
+]
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error))
+
+// Evaluates a policy's source. Only call this inside the sandbox worker.
+export function compilePolicy({ name, source }: CustomPolicySource): ReplacementPolicyPlugin {
+  let plugin: Partial<ReplacementPolicyPlugin> | undefined
+  try {
+    plugin = new Function(...SHADOWED_GLOBALS, `"use strict";\n${source}`)()
+  } catch (error) {
+    throw new Error(`${name}: ${errorMessage(error)}`)
+  }
+
+  if (typeof plugin?.chooseVictim !== "function") {
+    throw new Error(`${name}: the code must return an object with a chooseVictim(ctx) function`)
+  }
+  for (const hook of ["onHit", "onFill"] as const) {
+    if (plugin[hook] !== undefined && typeof plugin[hook] !== "function") {
+      throw new Error(`${name}: ${hook} must be a function`)
+    }
+  }
+
+  return plugin as ReplacementPolicyPlugin
+}
+
+// Wraps a call into policy code so its errors name the policy
+export function callPolicy<T>(name: string, call: () => T): T {
+  try {
+    return call()
+  } catch (error) {
+    throw new Error(`${name}: ${errorMessage(error)}`)
+  }
+}
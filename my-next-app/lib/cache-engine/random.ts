@@ -0,0 +1,28 @@
+import { MAX_SEED } from "./constants"
+
+// Mulberry32, a small 32-bit generator. Plenty for picking victims, and the
+// whole sequence is reproduced from the seed alone.
+export function seededRandom(seed: number): () => number {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 2 ** 32
+  }
+}
+
+export const randomSeed = () => Math.floor(Math.random() * (MAX_SEED + 1))
+
+// Seed of one level of a hierarchy, so L1 and L2 don't draw the same numbers
+export const levelSeed = (seed: number, level: number) => (seed + Math.imul(level, 0x9e3779b9)) >>> 0
+
+// `count` consecutive seeds starting at `start`, wrapping past the maximum
+export const seedRange = (start: number, count: number) => Array.from({ length: count }, (_, i) => (start + i) >>> 0)
+
+export function validateSeed(seed: number): string[] {
+  return Number.isInteger(seed) && seed >= 0 && seed <= MAX_SEED
+    ? []
+    : [`Seed must be a whole number from 0 to ${MAX_SEED}`]
+}
@@ -0,0 +1,24 @@
+import type { CacheLine } from "./types"
+
+// Reference-bit policies keep one bit per way, set whenever the way is used
+// (see touchPolicyBits). They approximate LRU the way operating systems do
+// for pages, with even less state than pseudo-LRU.
+
+// CLOCK / second chance: the hand sweeps the ways, clearing set bits as it
+// passes, and stops at the first way whose bit is already clear. Mutates bits.
+export function clockVictim(bits: number[], hand: number): number {
+  let way = hand
+  while (bits[way] === 1) {
+    bits[way] = 0
+    way = (way + 1) % bits.length
+  }
+  return way
+}
+
+// Not recently used: lines fall into four classes by referenced and dirty
+// bit, and the victim is the first line of the lowest class. Clean lines go
+// first because evicting them needs no writeback.
+export function nruVictim(set: CacheLine[], bits: number[]): number {
+  const nruClass = (way: number) => 2 * bits[way] + (set[way].dirty ? 1 : 0)
+  return set.reduce((best, _, way) => (nruClass(way) < nruClass(best) ? way : best), 0)
+}
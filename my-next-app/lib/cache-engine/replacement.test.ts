@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest"
+import { FutureTrace } from "./future"
+import { CacheSimulator } from "./simulator"
+import type { CacheConfig, ReplacementPolicy } from "./types"
+
+const BLOCK_SIZE = 8
+
+// One fully-associative set of four 8-byte lines
+const fourWays = (replacementPolicy: ReplacementPolicy): CacheConfig => ({
+  capacity: 4 * BLOCK_SIZE,
+  blockSize: BLOCK_SIZE,
+  associativity: 1,
+  addressBits: 8,
+  mappingType: "fully-associative",
+  replacementPolicy,
+  writePolicy: "write-back",
+  writeMissPolicy: "write-allocate",
+})
+
+// Reads the blocks in order, returning the block each access evicted, null if none
+function run(cache: CacheSimulator, blocks: number[]) {
+  return blocks.map((block) => cache.access(block * BLOCK_SIZE).victim?.blockAddress ?? null)
+}
+
+describe("victim choice", () => {
+  it("LRU evicts the line used longest ago", () => {
+    const cache = new CacheSimulator(fourWays("lru"))
+    expect(run(cache, [0, 1, 2, 3, 0, 4, 5])).toEqual([null, null, null, null, null, 1, 2])
+  })
+
+  it("FIFO evicts the line filled first, whatever its hits", () => {
+    const cache = new CacheSimulator(fourWays("fifo"))
+    expect(run(cache, [0, 1, 2, 3, 0, 4, 5])).toEqual([null, null, null, null, null, 0, 1])
+  })
+
+  it("LFU evicts the least-used line, the oldest of ties first", () => {
+    const cache = new CacheSimulator(fourWays("lfu"))
+    // Counts after the hits: 0 three times, 1 and 2 twice, 3 once
+    expect(run(cache, [0, 1, 2, 3, 0, 0, 1, 2, 4])).toEqual([null, null, null, null, null, null, null, null, 3])
+
+    // 4 came in with a count of 1 and is now the only line that low
+    expect(run(cache, [5])).toEqual([4])
+  })
+
+  it("Tree-PLRU follows the tree bits rather than true recency", () => {
+    const cache = new CacheSimulator(fourWays("tree-plru"))
+    // After the hit on 0 the root points right and the right node left, at way 2.
+    // True LRU would evict 1.
+    expect(run(cache, [0, 1, 2, 3, 0, 4])).toEqual([null, null, null, null, null, 2])
+    expect(cache.getPolicyBits()[0]).toEqual([0, 1, 1])
+  })
+
+  it("CLOCK gives referenced lines a second chance", () => {
+    const cache = new CacheSimulator(fourWays("clock"))
+    // Every bit is set when the set fills, so the hand sweeps round to way 0.
+    // 2 is hit afterwards, so the hand skips it and takes 3.
+    expect(run(cache, [0, 1, 2, 3, 4, 2, 5, 6])).toEqual([null, null, null, null, 0, null, 1, 3])
+    expect(cache.getClockHands()).toEqual([0])
+  })
+
+  it("OPT evicts the line used furthest in the future", () => {
+    const blocks = [0, 1, 2, 3, 4, 2, 0, 1, 3]
+    const cache = new CacheSimulator(fourWays("opt"))
+    cache.setFuture(new FutureTrace(blocks.map((block) => block * BLOCK_SIZE)))
+
+    const victims = blocks.map((block, position) => cache.access(block * BLOCK_SIZE, { position }).victim)
+    expect(victims[4]).toMatchObject({ blockAddress: 3, nextUse: 8 })
+    // 4 is never used again, so it goes before anything with a next use
+    expect(victims[8]).toMatchObject({ blockAddress: 4, nextUse: Infinity })
+    expect(cache.getStats().hits).toBe(3)
+  })
+})
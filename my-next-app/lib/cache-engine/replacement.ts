@@ -0,0 +1,146 @@
+import {
+  LFU_TIE_BREAKS,
+  LIST_POLICIES,
+  MAPPING_TYPES,
+  MAX_PSEL_BITS,
+  MAX_RRPV_BITS,
+  REPLACEMENT_POLICIES,
+} from "./constants"
+import { bitPlruVictim, treePlruVictim } from "./plru"
+import { clockVictim, nruVictim } from "./reference-bits"
+import { rripVictim } from "./rrip"
+import type { CacheLine, LfuTieBreak, LineRank, MappingType, ReplacementOptions, ReplacementPolicy } from "./types"
+
+// Index of the line with the smallest key, the first one winning ties
+const argMin = (lines: CacheLine[], key: (line: CacheLine) => number) =>
+  lines.reduce((minIdx, line, idx, arr) => (key(line) < key(arr[minIdx]) ? idx : minIdx), 0)
+
+// Least-used line by `count`, with ties settled by the tie-break rule
+function leastUsed(
+  lines: CacheLine[],
+  count: (line: CacheLine) => number,
+  tieBreak: LfuTieBreak,
+  random: () => number,
+): number {
+  const lowest = Math.min(...lines.map(count))
+  const tied = lines.flatMap((line, idx) => (count(line) === lowest ? [idx] : []))
+
+  if (tieBreak === LFU_TIE_BREAKS.RANDOM) return tied[Math.floor(random() * tied.length)]
+  const key = (idx: number) => (tieBreak === LFU_TIE_BREAKS.LRU ? lines[idx].lastUsed : lines[idx].insertedAt)
+  return tied.reduce((best, idx) => (key(idx) < key(best) ? idx : best))
+}
+
+// What a policy may consult besides the lines themselves
+export interface VictimContext {
+  random: () => number
+  nextUse: (line: CacheLine) => number // Trace position of the line's next access, Infinity if unknown
+  bits: number[] // The set's pseudo-LRU or reference bits
+  hand: number // Where the set's CLOCK hand points
+  maxRrpv: number // Distant re-reference value for RRIP
+  tieBreak: LfuTieBreak // Between lines with the same LFU count
+}
+
+// Picks the way to evict from a full set
+export function findVictimWay(
+  policy: ReplacementPolicy,
+  set: CacheLine[],
+  { random, nextUse, bits, hand, maxRrpv, tieBreak }: VictimContext,
+): number {
+  switch (policy) {
+    case REPLACEMENT_POLICIES.FIFO:
+      // Earliest filled, hits don't matter
+      return argMin(set, (line) => line.insertedAt)
+
+    case REPLACEMENT_POLICIES.LRU:
+    case REPLACEMENT_POLICIES.LIP:
+    case REPLACEMENT_POLICIES.BIP:
+      // Longest since last hit or fill. LIP and BIP differ only in where fills land.
+      return argMin(set, (line) => line.lastUsed)
+
+    case REPLACEMENT_POLICIES.LFU:
+    case REPLACEMENT_POLICIES.LFU_DECAY:
+      return leastUsed(set, (line) => line.frequency, tieBreak, random)
+
+    case REPLACEMENT_POLICIES.LFU_DA:
+      // Counts are inflated by the cache age, so old popularity fades
+      return leastUsed(set, (line) => line.lfuKey, tieBreak, random)
+
+    case REPLACEMENT_POLICIES.RANDOM:
+      return Math.floor(random() * set.length)
+
+    case REPLACEMENT_POLICIES.TREE_PLRU:
+      return treePlruVictim(bits, set.length)
+
+    case REPLACEMENT_POLICIES.BIT_PLRU:
+      return bitPlruVictim(bits)
+
+    case REPLACEMENT_POLICIES.CLOCK:
+      // Clears the reference bits the hand passes over
+      return clockVictim(bits, hand)
+
+    case REPLACEMENT_POLICIES.NRU:
+      return nruVictim(set, bits)
+
+    case REPLACEMENT_POLICIES.SRRIP:
+    case REPLACEMENT_POLICIES.BRRIP:
+      // Ages the lines in place until one is predicted distant
+      return rripVictim(set, maxRrpv)
+
+    case REPLACEMENT_POLICIES.OPT:
+      // Furthest next use. Lines never used again tie at Infinity and fall back
+      // to LRU, which is also all OPT can do when no trace is loaded.
+      return set.reduce((best, line, idx) => {
+        const use = nextUse(line)
+        const bestUse = nextUse(set[best])
+        return use > bestUse || (use === bestUse && line.lastUsed < set[best].lastUsed) ? idx : best
+      }, 0)
+
+    default:
+      return 0
+  }
+}
+
+// List-based policies only make sense with the whole cache as one set. The
+// engine still runs them per set, but the UI only offers them fully associative.
+export const isPolicyAvailable = (policy: ReplacementPolicy, mappingType: MappingType) =>
+  !LIST_POLICIES.includes(policy) || mappingType === MAPPING_TYPES.FULLY_ASSOCIATIVE
+
+// Returns a list of human-readable problems, empty when the options are usable
+export function validateReplacementOptions(options: ReplacementOptions): string[] {
+  const errors: string[] = []
+  const { rrpvBits, bimodalProbability, leaderSets, pselBits, nruClearInterval, lfuDecayInterval, lfuTieBreak } =
+    options
+
+  if (!Number.isInteger(rrpvBits) || rrpvBits < 1 || rrpvBits > MAX_RRPV_BITS) {
+    errors.push(`RRPV width must be between 1 and ${MAX_RRPV_BITS} bits`)
+  }
+  if (!(bimodalProbability >= 0 && bimodalProbability <= 1)) {
+    errors.push("Bimodal probability must be between 0 and 1")
+  }
+  if (!Number.isInteger(leaderSets) || leaderSets < 0) errors.push("Leader sets must be a whole number")
+  if (!Number.isInteger(pselBits) || pselBits < 1 || pselBits > MAX_PSEL_BITS) {
+    errors.push(`PSEL width must be between 1 and ${MAX_PSEL_BITS} bits`)
+  }
+  if (!Number.isInteger(nruClearInterval) || nruClearInterval < 1) {
+    errors.push("NRU clear interval must be at least 1 access")
+  }
+  if (!Number.isInteger(lfuDecayInterval) || lfuDecayInterval < 1) {
+    errors.push("LFU decay interval must be at least 1 access")
+  }
+  if (!Object.values(LFU_TIE_BREAKS).includes(lfuTieBreak)) errors.push("Unknown LFU tie-break rule")
+
+  return errors
+}
+
+// Age (fill order) and recency (use order) ranks for each line of a set
+export function rankLines(set: CacheLine[]): Array<LineRank | null> {
+  return set.map((line) => {
+    if (!line.valid) return null
+
+    const others = set.filter((other) => other.valid && other !== line)
+    return {
+      age: others.filter((other) => other.insertedAt > line.insertedAt).length,
+      recency: others.filter((other) => other.lastUsed > line.lastUsed).length,
+    }
+  })
+}
@@ -0,0 +1,28 @@
+import type { CacheLine } from "./types"
+
+// Re-reference interval prediction. Every line carries an RRPV from 0 (reused
+// soon) to 2^bits - 1 (reused in the distant future). Hits promote a line to
+// 0, and the victim is a line predicted distant, ageing the whole set until
+// one is.
+
+export const maxRrpv = (rrpvBits: number) => 2 ** rrpvBits - 1
+
+// SRRIP inserts with a long interval (max - 1). BRRIP inserts distant (max) so
+// a scan can't flush the set, except for the occasional long insertion that
+// lets a re-used working set establish itself.
+export function rripInsertion(bimodal: boolean, max: number, probability: number, random: () => number) {
+  if (!bimodal) return max - 1
+  return random() < probability ? max - 1 : max
+}
+
+// Mutates the set: every line is aged until one reaches the distant value
+export function rripVictim(set: CacheLine[], max: number): number {
+  for (;;) {
+    const way = set.findIndex((line) => line.rrpv >= max)
+    if (way !== -1) return way
+
+    set.forEach((line) => {
+      line.rrpv += 1
+    })
+  }
+}
@@ -0,0 +1,74 @@
+import { ACCESS_TYPES } from "./constants"
+import { FutureTrace } from "./future"
+import {
+  CacheHierarchy,
+  type HierarchyOptions,
+  type HierarchyRun,
+  type HierarchySnapshot,
+  type HierarchyStep,
+} from "./hierarchy"
+import { sweepSeeds, type SeedSweep } from "./seeds"
+import type { AccessType, CacheConfig, TimelineAccess, TraceAccess } from "./types"
+
+// Hierarchy options that can be posted to a worker
+export type RunnerOptions = Pick<HierarchyOptions, "inclusion" | "seed">
+
+// Drives a cache hierarchy the UI can't touch directly, either because it
+// lives in a worker or because it might. Every call resolves in order.
+export interface HierarchyRunner {
+  step(address: number, type?: AccessType, position?: number): Promise<HierarchyStep>
+  snapshot(): Promise<HierarchySnapshot>
+  // Addresses of the loaded trace for OPT to look ahead in, null to forget it
+  setFuture(addresses: number[] | null): Promise<void>
+  // Runs accesses in one go, for jumping ahead without animating each one
+  run(accesses: TimelineAccess[]): Promise<HierarchyRun>
+  // Starts over from empty caches and silently reruns the accesses. Runs are
+  // seeded, so this rebuilds exactly the state the hierarchy had after them.
+  rewind(accesses: TimelineAccess[]): Promise<HierarchySnapshot>
+  // Runs a trace on fresh copies of the hierarchy, once per seed
+  sweep(trace: TraceAccess[], seeds: number[]): Promise<SeedSweep>
+  dispose(): void
+}
+
+// Runs the hierarchy on the calling thread, for configurations without custom policies
+export class LocalRunner implements HierarchyRunner {
+  private hierarchy: CacheHierarchy
+  private configs: CacheConfig[]
+  private options: HierarchyOptions
+  private future: FutureTrace | null = null
+
+  constructor(configs: CacheConfig[], options: HierarchyOptions = {}) {
+    this.hierarchy = new CacheHierarchy(configs, options)
+    this.configs = configs
+    this.options = options
+  }
+
+  async step(address: number, type: AccessType = ACCESS_TYPES.READ, position?: number) {
+    return this.hierarchy.step(address, type, position)
+  }
+
+  async snapshot() {
+    return this.hierarchy.snapshot()
+  }
+
+  async setFuture(addresses: number[] | null) {
+    this.future = addresses ? new FutureTrace(addresses) : null
+    this.hierarchy.setFuture(this.future)
+  }
+
+  async run(accesses: TimelineAccess[]) {
+    return this.hierarchy.run(accesses)
+  }
+
+  async rewind(accesses: TimelineAccess[]) {
+    this.hierarchy = new CacheHierarchy(this.configs, this.options)
+    this.hierarchy.setFuture(this.future)
+    return this.hierarchy.run(accesses).snapshot
+  }
+
+  async sweep(trace: TraceAccess[], seeds: number[]) {
+    return sweepSeeds(this.configs, trace, seeds, this.options)
+  }
+
+  dispose() {}
+}
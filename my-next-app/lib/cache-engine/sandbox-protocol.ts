@@ -0,0 +1,28 @@
+import type { HierarchyRun, HierarchySnapshot, HierarchyStep } from "./hierarchy"
+import type { RunnerOptions } from "./runner"
+import type { SeedSweep } from "./seeds"
+import type { AccessType, CacheConfig, TimelineAccess, TraceAccess } from "./types"
+
+// Messages between SandboxRunner and the worker in sandbox.worker.ts
+export type SandboxRequest =
+  | { kind: "init"; configs: CacheConfig[]; options: RunnerOptions }
+  | { kind: "future"; addresses: number[] | null }
+  | { kind: "step"; address: number; type: AccessType; position?: number }
+  | { kind: "snapshot" }
+  | { kind: "run"; accesses: TimelineAccess[] }
+  | { kind: "rewind"; accesses: TimelineAccess[] }
+  | { kind: "sweep"; trace: TraceAccess[]; seeds: number[] }
+
+export interface SandboxResults {
+  init: HierarchySnapshot
+  future: null
+  step: HierarchyStep
+  snapshot: HierarchySnapshot
+  run: HierarchyRun
+  rewind: HierarchySnapshot
+  sweep: SeedSweep
+}
+
+export type SandboxMessage = SandboxRequest & { id: number }
+
+export type SandboxResponse = { id: number; ok: true; result: unknown } | { id: number; ok: false; error: string }
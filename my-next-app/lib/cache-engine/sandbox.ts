@@ -0,0 +1,156 @@
+import {
+  ACCESS_TYPES,
+  INCLUSION_POLICIES,
+  MAPPING_TYPES,
+  REPLACEMENT_POLICIES,
+  WRITE_MISS_POLICIES,
+  WRITE_POLICIES,
+} from "./constants"
+import type { HierarchyRun, HierarchySnapshot, HierarchyStep } from "./hierarchy"
+import { LocalRunner, type HierarchyRunner, type RunnerOptions } from "./runner"
+import type { SandboxRequest, SandboxResponse, SandboxResults } from "./sandbox-protocol"
+import type { SeedSweep } from "./seeds"
+import type {
+  AccessType,
+  CacheConfig,
+  CacheStatsSnapshot,
+  CustomPolicySource,
+  TimelineAccess,
+  TraceAccess,
+} from "./types"
+
+// Longest a single request may take before the policy is assumed to be stuck.
+// Sweeps get this much per seed, runs and rewinds per ACCESSES_PER_TIMEOUT accesses.
+const REQUEST_TIMEOUT_MS = 2000
+const ACCESSES_PER_TIMEOUT = 10_000
+
+const runTimeout = (accesses: TimelineAccess[]) =>
+  REQUEST_TIMEOUT_MS * Math.max(1, Math.ceil(accesses.length / ACCESSES_PER_TIMEOUT))
+
+interface Pending {
+  resolve: (result: unknown) => void
+  reject: (error: Error) => void
+  timer: ReturnType<typeof setTimeout>
+}
+
+// Runs a hierarchy with custom policies in a Web Worker. A request that takes
+// too long kills the worker, and every later request fails with the reason.
+export class SandboxRunner implements HierarchyRunner {
+  private worker: Worker | null
+  private nextId = 0
+  private pending = new Map<number, Pending>()
+  private failure: Error | null = null
+
+  constructor(configs: CacheConfig[], options: RunnerOptions) {
+    this.worker = new Worker(new URL("./sandbox.worker.ts", import.meta.url))
+    this.worker.onmessage = (event: MessageEvent<SandboxResponse>) => this.settle(event.data)
+    this.worker.onerror = (event) => this.fail(new Error(event.message || "The policy sandbox crashed"))
+
+    // Init errors are repeated by the worker for every later request, so they surface there
+    this.request({ kind: "init", configs, options }).catch(() => {})
+  }
+
+  step(address: number, type: AccessType = ACCESS_TYPES.READ, position?: number): Promise<HierarchyStep> {
+    return this.request({ kind: "step", address, type, position })
+  }
+
+  snapshot(): Promise<HierarchySnapshot> {
+    return this.request({ kind: "snapshot" })
+  }
+
+  async setFuture(addresses: number[] | null) {
+    await this.request({ kind: "future", addresses })
+  }
+
+  run(accesses: TimelineAccess[]): Promise<HierarchyRun> {
+    return this.request({ kind: "run", accesses }, runTimeout(accesses))
+  }
+
+  rewind(accesses: TimelineAccess[]): Promise<HierarchySnapshot> {
+    return this.request({ kind: "rewind", accesses }, runTimeout(accesses))
+  }
+
+  sweep(trace: TraceAccess[], seeds: number[]): Promise<SeedSweep> {
+    return this.request({ kind: "sweep", trace, seeds }, REQUEST_TIMEOUT_MS * Math.max(1, seeds.length))
+  }
+
+  dispose() {
+    this.fail(new Error("The policy sandbox was closed"))
+  }
+
+  private request<K extends SandboxRequest["kind"]>(
+    request: Extract<SandboxRequest, { kind: K }>,
+    timeout = REQUEST_TIMEOUT_MS,
+  ): Promise<SandboxResults[K]> {
+    const worker = this.worker
+    if (!worker) return Promise.reject(this.failure ?? new Error("The policy sandbox was closed"))
+
+    const id = this.nextId++
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(
+        () => this.fail(new Error(`Custom policy took longer than ${timeout / 1000} s, is it stuck in a loop?`)),
+        timeout,
+      )
+      this.pending.set(id, { resolve: resolve as (result: unknown) => void, reject, timer })
+      worker.postMessage({ ...request, id })
+    })
+  }
+
+  private settle(response: SandboxResponse) {
+    const pending = this.pending.get(response.id)
+    if (!pending) return
+
+    this.pending.delete(response.id)
+    clearTimeout(pending.timer)
+    if (response.ok) pending.resolve(response.result)
+    else pending.reject(new Error(response.error))
+  }
+
+  private fail(error: Error) {
+    this.worker?.terminate()
+    this.worker = null
+    this.failure = this.failure ?? error
+
+    this.pending.forEach(({ reject, timer }) => {
+      clearTimeout(timer)
+      reject(error)
+    })
+    this.pending.clear()
+  }
+}
+
+// Custom policies go to the sandbox, everything else runs in place
+export function createRunner(configs: CacheConfig[], options: RunnerOptions): HierarchyRunner {
+  return configs.some((config) => config.replacementPolicy === REPLACEMENT_POLICIES.CUSTOM)
+    ? new SandboxRunner(configs, options)
+    : new LocalRunner(configs, options)
+}
+
+// A short trace with reuse and more blocks than fit in a set, enough to call every hook
+const TEST_BLOCKS = [0, 2, 4, 6, 0, 8, 2, 10, 12, 0, 14, 4, 16, 2, 18, 0, 6, 20, 8, 2]
+
+// Runs a policy on a small two-set cache, rejecting with the policy's error if it fails
+export async function testCustomPolicy(policy: CustomPolicySource): Promise<CacheStatsSnapshot> {
+  const config: CacheConfig = {
+    capacity: 32,
+    blockSize: 4,
+    associativity: 4,
+    addressBits: 8,
+    mappingType: MAPPING_TYPES.SET_ASSOCIATIVE,
+    replacementPolicy: REPLACEMENT_POLICIES.CUSTOM,
+    customPolicy: policy,
+    writePolicy: WRITE_POLICIES.WRITE_BACK,
+    writeMissPolicy: WRITE_MISS_POLICIES.WRITE_ALLOCATE,
+  }
+  const runner = new SandboxRunner([config], { inclusion: INCLUSION_POLICIES.NINE })
+
+  try {
+    let step: HierarchyStep | null = null
+    for (const block of TEST_BLOCKS) {
+      step = await runner.step(block * config.blockSize)
+    }
+    return (step as HierarchyStep).snapshot.stats[0]
+  } finally {
+    runner.dispose()
+  }
+}
@@ -0,0 +1,74 @@
+import { FutureTrace } from "./future"
+import { CacheHierarchy } from "./hierarchy"
+import { compilePolicy } from "./plugin"
+import type { RunnerOptions } from "./runner"
+import { sweepSeeds } from "./seeds"
+import type { CacheConfig } from "./types"
+import type { SandboxMessage, SandboxRequest, SandboxResponse } from "./sandbox-protocol"
+
+// The only place custom policy code is evaluated. The worker owns the whole
+// hierarchy, so policies never touch the page, and a runaway policy can be
+// stopped by terminating the worker.
+
+let hierarchy: CacheHierarchy | null = null
+let configs: CacheConfig[] = [] // Kept for sweeps, which build their own hierarchies
+let options: RunnerOptions = {}
+let future: FutureTrace | null = null // Kept for rewinds, which start a new hierarchy
+let initError: string | null = null // Reported again for every request after a failed init
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error))
+
+function handle(request: SandboxRequest): unknown {
+  if (request.kind === "init") {
+    hierarchy = null
+    future = null
+    initError = null
+    try {
+      configs = request.configs
+      options = request.options
+      hierarchy = new CacheHierarchy(configs, { ...options, resolvePolicy: compilePolicy })
+    } catch (error) {
+      initError = errorMessage(error)
+      throw error
+    }
+    return hierarchy.snapshot()
+  }
+
+  if (!hierarchy) throw new Error(initError ?? "The policy sandbox has no cache to run")
+
+  switch (request.kind) {
+    case "future":
+      future = request.addresses ? new FutureTrace(request.addresses) : null
+      hierarchy.setFuture(future)
+      return null
+    case "step":
+      return hierarchy.step(request.address, request.type, request.position)
+    case "snapshot":
+      return hierarchy.snapshot()
+    case "run":
+      return hierarchy.run(request.accesses)
+    case "rewind":
+      hierarchy = new CacheHierarchy(configs, { ...options, resolvePolicy: compilePolicy })
+      hierarchy.setFuture(future)
+      return hierarchy.run(request.accesses).snapshot
+    case "sweep":
+      return sweepSeeds(configs, request.trace, request.seeds, { ...options, resolvePolicy: compilePolicy })
+  }
+}
+
+self.onmessage = (event: MessageEvent<SandboxMessage>) => {
+  const { id } = event.data
+  let response: SandboxResponse
+  try {
+    response = { id, ok: true, result: handle(event.data) }
+  } catch (error) {
+    response = { id, ok: false, error: errorMessage(error) }
+  }
+
+  try {
+    self.postMessage(response)
+  } catch (error) {
+    // Line meta that can't be cloned, like a function, fails here
+    self.postMessage({ id, ok: false, error: `Custom policy meta must be plain data: ${errorMessage(error)}` })
+  }
+}
@@ -0,0 +1,49 @@
+import { FutureTrace } from "./future"
+import { CacheHierarchy, type HierarchyOptions } from "./hierarchy"
+import type { CacheConfig, TraceAccess } from "./types"
+
+export interface SeedRun {
+  seed: number
+  hits: number // L1 hits over the whole trace
+  hitRate: number // 0 to 1
+}
+
+export interface SeedSweep {
+  runs: SeedRun[]
+  mean: number
+  variance: number // Sample variance of the hit rate, 0 for a single run
+  min: number
+  max: number
+}
+
+// Runs the whole trace once per seed on fresh caches and summarizes the L1
+// hit rate. Only policies that draw random numbers vary between seeds.
+export function sweepSeeds(
+  configs: CacheConfig[],
+  trace: TraceAccess[],
+  seeds: number[],
+  options: HierarchyOptions = {},
+): SeedSweep {
+  const future = new FutureTrace(trace.map((entry) => entry.address))
+
+  const runs = seeds.map((seed) => {
+    const hierarchy = new CacheHierarchy(configs, { ...options, seed })
+    hierarchy.setFuture(future)
+    trace.forEach((entry, position) => hierarchy.access(entry.address, entry.type, position))
+
+    const { hits } = hierarchy.getStats()[0]
+    return { seed, hits, hitRate: trace.length > 0 ? hits / trace.length : 0 }
+  })
+
+  const rates = runs.map((run) => run.hitRate)
+  const mean = rates.reduce((sum, rate) => sum + rate, 0) / Math.max(1, rates.length)
+  const squares = rates.reduce((sum, rate) => sum + (rate - mean) ** 2, 0)
+
+  return {
+    runs,
+    mean,
+    variance: rates.length > 1 ? squares / (rates.length - 1) : 0,
+    min: rates.length > 0 ? Math.min(...rates) : 0,
+    max: rates.length > 0 ? Math.max(...rates) : 0,
+  }
+}
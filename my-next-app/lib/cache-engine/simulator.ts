@@ -0,0 +1,496 @@
+import {
+  ACCESS_TYPES,
+  DEFAULT_REPLACEMENT_OPTIONS,
+  DEFAULT_SEED,
+  DUELING_POLICIES,
+  REPLACEMENT_POLICIES,
+  RRIP_POLICIES,
+  WRITE_MISS_POLICIES,
+  WRITE_POLICIES,
+} from "./constants"
+import { SetDueling } from "./dueling"
+import type { FutureTrace } from "./future"
+import { addressComponents, deriveGeometry, validateGeometry } from "./geometry"
+import { createListPolicy, type ListPolicy } from "./list-policies"
+import { MissClassifier } from "./miss-classifier"
+import { callPolicy, type PolicyContext, type ReplacementPolicyPlugin } from "./plugin"
+import { policyBitCount, touchPolicyBits } from "./plru"
+import { seededRandom } from "./random"
+import { findVictimWay, validateReplacementOptions } from "./replacement"
+import { maxRrpv, rripInsertion } from "./rrip"
+import type {
+  AccessOptions,
+  AccessResult,
+  AddressComponents,
+  CacheConfig,
+  CacheLine,
+  CacheStatsSnapshot,
+  DerivedGeometry,
+  DuelSnapshot,
+  EvictedBlock,
+  FillResult,
+  PolicyListsSnapshot,
+  ReplacementOptions,
+  ReplacementPolicy,
+  SimulatorOptions,
+} from "./types"
+
+export const emptyStats = (): CacheStatsSnapshot => ({
+  hits: 0,
+  compulsoryMisses: 0,
+  capacityMisses: 0,
+  conflictMisses: 0,
+  writebacks: 0,
+})
+
+const emptyLine = (): CacheLine => ({
+  valid: false,
+  tag: null,
+  blockAddress: null,
+  insertedAt: 0,
+  lastUsed: 0,
+  frequency: 0,
+  dirty: false,
+  rrpv: 0,
+  lfuKey: 0,
+  meta: {},
+})
+
+// Framework-free cache model. Every access goes through access(), which mutates
+// the internal state and reports what happened so callers can animate it.
+export class CacheSimulator {
+  readonly config: CacheConfig
+  readonly geometry: DerivedGeometry
+  readonly replacementOptions: ReplacementOptions
+
+  private lines: CacheLine[] = []
+  private policyBits: number[][] = [] // Pseudo-LRU bits, one array per set
+  private hands: number[] = [] // CLOCK hand of each set
+  private lists: Array<ListPolicy | null> = [] // SLRU, 2Q and ARC lists of each set
+  private sinceAging = 0 // Accesses since NRU last cleared its bits or LFU last halved its counts
+  private cacheAges: number[] = [] // LFU-DA's age L of each set, the key of its latest victim
+  private dueling: SetDueling | null = null // Only for policies that duel two others
+  private plugin: ReplacementPolicyPlugin | null = null // Only for custom policies
+  private stats = emptyStats()
+  private classifier: MissClassifier
+  private clock = 0 // Logical time, advanced once per access
+  private random: () => number
+  private readonly seed: number
+  private readonly fixedRandom: (() => number) | null // Set when the caller supplies its own generator
+  private future: FutureTrace | null = null
+  private position = -1 // Trace position of the latest access, OPT looks ahead from here
+
+  constructor(config: CacheConfig, options: SimulatorOptions = {}) {
+    const errors = validateGeometry(config)
+    if (errors.length > 0) {
+      throw new Error(`Invalid cache geometry: ${errors.join(", ")}`)
+    }
+
+    const replacementOptions = { ...DEFAULT_REPLACEMENT_OPTIONS, ...config.replacementOptions }
+    const optionErrors = validateReplacementOptions(replacementOptions)
+    if (optionErrors.length > 0) {
+      throw new Error(`Invalid replacement options: ${optionErrors.join(", ")}`)
+    }
+
+    if (config.replacementPolicy === REPLACEMENT_POLICIES.CUSTOM) {
+      if (!config.customPolicy) throw new Error("A custom replacement policy needs its source")
+      if (!options.resolvePolicy) throw new Error("Custom replacement policies only run in the policy sandbox")
+      this.plugin = options.resolvePolicy(config.customPolicy)
+    }
+
+    this.config = config
+    this.replacementOptions = replacementOptions
+    this.geometry = deriveGeometry(config, config.mappingType)
+    this.seed = options.seed ?? DEFAULT_SEED
+    this.fixedRandom = options.random ?? null
+    this.random = this.fixedRandom ?? seededRandom(this.seed)
+    this.classifier = new MissClassifier(this.geometry.numBlocks, this.geometry.numSets === 1)
+
+    this.reset()
+  }
+
+  get numSets() {
+    return this.geometry.numSets
+  }
+
+  get ways() {
+    return this.geometry.ways
+  }
+
+  reset() {
+    this.lines = Array.from({ length: this.geometry.numBlocks }, emptyLine)
+    this.policyBits = Array.from({ length: this.numSets }, () =>
+      Array(policyBitCount(this.config.replacementPolicy, this.ways)).fill(0),
+    )
+    this.hands = Array(this.numSets).fill(0)
+    this.lists = Array.from({ length: this.numSets }, () => createListPolicy(this.config.replacementPolicy, this.ways))
+    this.sinceAging = 0
+    this.cacheAges = Array(this.numSets).fill(0)
+    const { leaderSets, pselBits } = this.replacementOptions
+    this.dueling = DUELING_POLICIES[this.config.replacementPolicy]
+      ? new SetDueling(this.numSets, leaderSets, pselBits)
+      : null
+    this.stats = emptyStats()
+    this.classifier.reset()
+    this.clock = 0
+    this.position = -1
+    // Start the sequence over, so a reset replays exactly the same choices
+    this.random = this.fixedRandom ?? seededRandom(this.seed)
+  }
+
+  // Copies of each set's pseudo-LRU bits, empty arrays for other policies
+  getPolicyBits(): number[][] {
+    return this.policyBits.map((bits) => [...bits])
+  }
+
+  // Lists of each set for list-based policies, null entries for other policies
+  getPolicyLists(): Array<PolicyListsSnapshot | null> {
+    return this.lists.map((lists) => lists?.snapshot() ?? null)
+  }
+
+  // Accesses between NRU clearing its bits or LFU decay halving its counts,
+  // null for policies that don't age periodically
+  private get agingInterval(): number | null {
+    if (this.config.replacementPolicy === REPLACEMENT_POLICIES.NRU) return this.replacementOptions.nruClearInterval
+    if (this.config.replacementPolicy === REPLACEMENT_POLICIES.LFU_DECAY)
+      return this.replacementOptions.lfuDecayInterval
+    return null
+  }
+
+  // Accesses left before the next periodic aging, null for policies without one
+  getAccessesUntilAging(): number | null {
+    const interval = this.agingInterval
+    return interval !== null ? interval - this.sinceAging : null
+  }
+
+  // Way each set's CLOCK hand points at, only meaningful for CLOCK
+  getClockHands(): number[] {
+    return [...this.hands]
+  }
+
+  // Set roles and PSEL of a dueling policy, null for every other policy
+  getDuelState(): DuelSnapshot | null {
+    const policies = DUELING_POLICIES[this.config.replacementPolicy]
+    if (!this.dueling || !policies) return null
+
+    return {
+      policies,
+      psel: this.dueling.counter,
+      pselMax: this.dueling.pselMax,
+      favored: this.dueling.favored === "a" ? policies[0] : policies[1],
+      roles: this.dueling.getRoles(),
+    }
+  }
+
+  // Policy a set replaces with, which for dueling policies depends on the set
+  policyFor(set: number): ReplacementPolicy {
+    const policies = DUELING_POLICIES[this.config.replacementPolicy]
+    if (!this.dueling || !policies) return this.config.replacementPolicy
+    return this.dueling.choose(set) === "a" ? policies[0] : policies[1]
+  }
+
+  // Trace the OPT policy looks ahead in, null when accesses arrive one by one
+  setFuture(future: FutureTrace | null) {
+    this.future = future
+  }
+
+  // Trace position of a block's next access after the current one
+  nextUse(blockAddress: number): number {
+    return this.future?.nextUse(blockAddress, this.config.blockSize, this.position) ?? Infinity
+  }
+
+  // Next use of every line, Infinity for empty lines and blocks not used again
+  getNextUses(): number[] {
+    return this.lines.map((line) => (line.blockAddress !== null ? this.nextUse(line.blockAddress) : Infinity))
+  }
+
+  // Copies of the cache lines, safe to hand to React state
+  getLines(): CacheLine[] {
+    return this.lines.map((line) => ({ ...line, meta: { ...line.meta } }))
+  }
+
+  getStats(): CacheStatsSnapshot {
+    return { ...this.stats }
+  }
+
+  getAddressComponents(address: number): AddressComponents {
+    return addressComponents(address, this.geometry)
+  }
+
+  // Flat line index holding the address's block, or -1 when it is not cached
+  lookup(address: number): number {
+    const { index, tag } = this.getAddressComponents(address)
+    const start = index * this.ways
+
+    for (let way = 0; way < this.ways; way++) {
+      const line = this.lines[start + way]
+      if (line.valid && line.tag === tag) {
+        return start + way
+      }
+    }
+
+    return -1
+  }
+
+  access(address: number, { allocate = true, type = ACCESS_TYPES.READ, position }: AccessOptions = {}): AccessResult {
+    this.clock += 1
+    if (position !== undefined) {
+      this.position = position
+    }
+
+    // NRU forgets every reference at a fixed interval, so "recently" means
+    // since the last reset. LFU decay halves every count, so old popularity fades.
+    this.sinceAging += 1
+    const interval = this.agingInterval
+    if (interval !== null && this.sinceAging > interval) {
+      this.policyBits.forEach((bits) => bits.fill(0))
+      if (this.config.replacementPolicy === REPLACEMENT_POLICIES.LFU_DECAY) {
+        this.lines.forEach((line) => {
+          line.frequency = Math.floor(line.frequency / 2)
+        })
+      }
+      this.sinceAging = 1
+    }
+
+    // Write-through caches pass every store on, so only write-back lines get dirty
+    const makesDirty = type === ACCESS_TYPES.WRITE && this.config.writePolicy === WRITE_POLICIES.WRITE_BACK
+
+    const components = this.getAddressComponents(address)
+    const set = components.index
+    const start = set * this.ways
+    const hitIndex = this.lookup(address)
+
+    if (hitIndex !== -1) {
+      this.classifier.observe(components.blockAddress)
+      const line = this.lines[hitIndex]
+      line.lastUsed = this.clock
+      line.frequency += 1
+      line.lfuKey = line.frequency + this.cacheAges[set]
+      line.dirty = line.dirty || makesDirty
+      line.rrpv = 0
+      this.touch(set, hitIndex - start)
+      this.lists[set]?.hit(components.blockAddress)
+      this.callPlugin("onHit", set, hitIndex - start)
+      this.stats.hits += 1
+
+      return {
+        address,
+        type,
+        ...components,
+        result: "hit",
+        set,
+        way: hitIndex - start,
+        lineIndex: hitIndex,
+        filled: false,
+        victim: null,
+      }
+    }
+
+    const missType = this.classifier.classify(components.blockAddress)
+    this.stats[`${missType}Misses`] += 1
+    this.dueling?.recordMiss(set)
+
+    const writesAround =
+      type === ACCESS_TYPES.WRITE && this.config.writeMissPolicy === WRITE_MISS_POLICIES.NO_WRITE_ALLOCATE
+    if (!allocate || writesAround) {
+      return {
+        address,
+        type,
+        ...components,
+        result: "miss",
+        set,
+        way: -1,
+        lineIndex: -1,
+        filled: false,
+        victim: null,
+        missType,
+      }
+    }
+
+    const { lineIndex, victim } = this.fill(components.blockAddress, makesDirty)
+
+    return {
+      address,
+      type,
+      ...components,
+      result: "miss",
+      set,
+      way: lineIndex - start,
+      lineIndex,
+      filled: true,
+      victim,
+      missType,
+    }
+  }
+
+  // Places a block without counting it as an access. Used when another level
+  // pushes a block here, like a victim moving down an exclusive hierarchy.
+  insert(blockAddress: number, dirty = false): FillResult {
+    this.clock += 1
+    const existing = this.lookup(blockAddress * this.config.blockSize)
+    if (existing !== -1) {
+      this.lines[existing].dirty = this.lines[existing].dirty || dirty
+      return { lineIndex: existing, victim: null }
+    }
+
+    return this.fill(blockAddress, dirty)
+  }
+
+  // Applies a store coming from the level above without counting an access.
+  // Returns false when the block isn't cached here, so the store goes further down.
+  absorbWrite(address: number): boolean {
+    const lineIndex = this.lookup(address)
+    if (lineIndex === -1) return false
+
+    if (this.config.writePolicy === WRITE_POLICIES.WRITE_BACK) {
+      this.lines[lineIndex].dirty = true
+    }
+    return true
+  }
+
+  // Drops a block if it is cached, returning a copy of the removed line
+  invalidate(blockAddress: number): CacheLine | null {
+    const lineIndex = this.lookup(blockAddress * this.config.blockSize)
+    if (lineIndex === -1) return null
+
+    const line = this.lines[lineIndex]
+    this.lines[lineIndex] = emptyLine()
+    this.lists[Math.floor(lineIndex / this.ways)]?.remove(blockAddress)
+    return line
+  }
+
+  private fill(blockAddress: number, dirty: boolean): FillResult {
+    this.classifier.observe(blockAddress)
+    const { tag, index: set } = this.getAddressComponents(blockAddress * this.config.blockSize)
+    const candidates = this.getSet(set)
+    const policy = this.policyFor(set)
+    const emptyWay = candidates.findIndex((line) => !line.valid)
+
+    // List-based policies choose from their own bookkeeping
+    const listVictim = this.lists[set]?.admit(blockAddress, emptyWay === -1) ?? null
+    const listWay = candidates.findIndex((line) => line.valid && line.blockAddress === listVictim)
+
+    const way =
+      emptyWay !== -1
+        ? emptyWay
+        : listWay !== -1
+          ? listWay
+          : this.plugin
+            ? this.pluginVictim(set)
+            : findVictimWay(policy, candidates, {
+                random: this.random,
+                nextUse: (line) => (line.blockAddress !== null ? this.nextUse(line.blockAddress) : Infinity),
+                bits: this.policyBits[set],
+                hand: this.hands[set],
+                maxRrpv: maxRrpv(this.replacementOptions.rrpvBits),
+                tieBreak: this.replacementOptions.lfuTieBreak,
+              })
+    const lineIndex = set * this.ways + way
+    const evicted = this.lines[lineIndex]
+
+    // LFU-DA ages the set to the victim's key, giving newcomers a head start over stale counts
+    if (evicted.valid && policy === REPLACEMENT_POLICIES.LFU_DA) {
+      this.cacheAges[set] = evicted.lfuKey
+    }
+
+    this.lines[lineIndex] = {
+      valid: true,
+      tag,
+      blockAddress,
+      insertedAt: this.clock,
+      lastUsed: this.insertionRecency(policy, candidates, way),
+      frequency: 1,
+      dirty,
+      rrpv: this.insertionRrpv(policy),
+      lfuKey: 1 + this.cacheAges[set],
+      meta: {},
+    }
+    this.touch(set, way)
+    this.callPlugin("onFill", set, way)
+    if (emptyWay === -1 && policy === REPLACEMENT_POLICIES.CLOCK) {
+      this.hands[set] = (way + 1) % this.ways
+    }
+
+    const victim: EvictedBlock | null =
+      evicted.blockAddress !== null && evicted.tag !== null
+        ? { blockAddress: evicted.blockAddress, tag: evicted.tag, dirty: evicted.dirty }
+        : null
+    if (victim && this.config.replacementPolicy === REPLACEMENT_POLICIES.OPT) {
+      victim.nextUse = this.nextUse(victim.blockAddress)
+    }
+    if (victim?.dirty) {
+      this.stats.writebacks += 1
+    }
+
+    return { lineIndex, victim }
+  }
+
+  // Last-use time a newly filled line starts with. LIP, and BIP most of the
+  // time, place it just behind the set's LRU line, so a block has to be hit
+  // again before it is safe from the next miss.
+  private insertionRecency(policy: ReplacementPolicy, set: CacheLine[], way: number) {
+    const insertsAtLru =
+      policy === REPLACEMENT_POLICIES.LIP ||
+      (policy === REPLACEMENT_POLICIES.BIP && this.random() >= this.replacementOptions.bimodalProbability)
+    const others = set.filter((line, i) => line.valid && i !== way)
+    if (!insertsAtLru || others.length === 0) return this.clock
+
+    return Math.min(...others.map((line) => line.lastUsed)) - 1
+  }
+
+  // Prediction a newly filled line starts with, 0 for policies that ignore it
+  private insertionRrpv(policy: ReplacementPolicy) {
+    if (!RRIP_POLICIES.includes(policy) || policy === REPLACEMENT_POLICIES.DRRIP) return 0
+
+    const { rrpvBits, bimodalProbability } = this.replacementOptions
+    return rripInsertion(policy === REPLACEMENT_POLICIES.BRRIP, maxRrpv(rrpvBits), bimodalProbability, this.random)
+  }
+
+  // The set as a custom policy sees it, sharing each line's meta object
+  private pluginContext(set: number): PolicyContext {
+    return {
+      set,
+      ways: this.ways,
+      time: this.clock,
+      lines: this.getSet(set).map((line, way) => ({
+        way,
+        valid: line.valid,
+        blockAddress: line.blockAddress,
+        tag: line.tag,
+        insertedAt: line.insertedAt,
+        lastUsed: line.lastUsed,
+        frequency: line.frequency,
+        dirty: line.dirty,
+        meta: line.meta,
+      })),
+      random: this.random,
+    }
+  }
+
+  private callPlugin(hook: "onHit" | "onFill", set: number, way: number) {
+    const plugin = this.plugin
+    if (!plugin?.[hook] || !this.config.customPolicy) return
+
+    callPolicy(this.config.customPolicy.name, () => plugin[hook]?.(this.pluginContext(set), way))
+  }
+
+  // Asks the custom policy for a victim, refusing ways that don't exist
+  private pluginVictim(set: number): number {
+    const plugin = this.plugin as ReplacementPolicyPlugin
+    const name = this.config.customPolicy?.name ?? "Custom policy"
+    const way = callPolicy(name, () => plugin.chooseVictim(this.pluginContext(set)))
+
+    if (!Number.isInteger(way) || way < 0 || way >= this.ways) {
+      throw new Error(`${name}: chooseVictim returned ${String(way)}, expected a way from 0 to ${this.ways - 1}`)
+    }
+    return way
+  }
+
+  private touch(set: number, way: number) {
+    touchPolicyBits(this.config.replacementPolicy, this.policyBits[set], way, this.ways)
+  }
+
+  private getSet(set: number): CacheLine[] {
+    return this.lines.slice(set * this.ways, (set + 1) * this.ways)
+  }
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest"
+import { parseTraceFile } from "./trace"
+
+const options = { maxAddress: 0xffff }
+
+describe("parseTraceFile", () => {
+  it("reads Dinero records, skipping comments, escapes and flushes", () => {
+    const text = ["# din trace", "0 10", "1 0x20", "", "2 30", "3 40", "4 0"].join("\n")
+    expect(parseTraceFile(text, "dinero", options)).toEqual({
+      entries: [
+        { type: "read", address: 0x10 },
+        { type: "write", address: 0x20 },
+        { type: "read", address: 0x30 },
+      ],
+      errors: [],
+      truncated: false,
+    })
+  })
+
+  it("names the line of each bad Dinero record", () => {
+    const text = ["0 10", "7 20", "1", "0 zz"].join("\n")
+    expect(parseTraceFile(text, "dinero", options).errors).toEqual([
+      'Line 2: "7" is not a Dinero label, expected 0 to 4',
+      "Line 3: Missing address",
+      'Line 4: "zz" is not a hex address',
+    ])
+  })
+
+  it("reads Lackey records, splitting modifies into a load and a store", () => {
+    const text = ["==123== Lackey", "I  0000d7d4,8", " L 0000a0a0,4", " M 0000b0b0,4", " S 0000c0c0,2"].join("\n")
+    expect(parseTraceFile(text, "lackey", options).entries).toEqual([
+      { type: "read", address: 0xd7d4 },
+      { type: "read", address: 0xa0a0 },
+      { type: "read", address: 0xb0b0 },
+      { type: "write", address: 0xb0b0 },
+      { type: "write", address: 0xc0c0 },
+    ])
+  })
+
+  it("names the line of each bad Lackey record", () => {
+    const text = [" L 0000a0a0,4", " X 1234,4", " S 1234,0"].join("\n")
+    expect(parseTraceFile(text, "lackey", options).errors).toEqual([
+      'Line 2: Not a Lackey record, expected e.g. " L 04222cac,4"',
+      "Line 3: Size 0 must be at least 1",
+    ])
+  })
+
+  it("reads CSV rows after a header", () => {
+    const text = ["op,address,size", "R,64,4", "w,0x80", "M,128,8"].join("\n")
+    expect(parseTraceFile(text, "csv", options).entries).toEqual([
+      { type: "read", address: 64 },
+      { type: "write", address: 0x80 },
+      { type: "read", address: 128 },
+      { type: "write", address: 128 },
+    ])
+  })
+
+  it("names the line of each bad CSV row", () => {
+    const text = ["R,64", "R,64,4,1", "Q,64", "W,abc"].join("\n")
+    expect(parseTraceFile(text, "csv", options).errors).toEqual([
+      "Line 2: Too many fields, expected op,address,size",
+      'Line 3: "Q" is not an operation, expected R, W or M',
+      'Line 4: "abc" is not a decimal or 0x hex address',
+    ])
+  })
+
+  it("rejects addresses beyond the address space unless asked to wrap them", () => {
+    const text = ["0 10", "0 12345"].join("\n")
+    expect(parseTraceFile(text, "dinero", { maxAddress: 0xff }).errors).toEqual([
+      "Line 2: Address 12345 is above the largest address 255",
+    ])
+    expect(parseTraceFile(text, "dinero", { maxAddress: 0xff, fold: true }).entries).toEqual([
+      { type: "read", address: 0x10 },
+      { type: "read", address: 0x45 },
+    ])
+  })
+
+  it("stops at the access limit and says so", () => {
+    const text = ["0 10", "0 20", "0 30"].join("\n")
+    expect(parseTraceFile(text, "dinero", { ...options, maxAccesses: 2 })).toMatchObject({
+      entries: [
+        { type: "read", address: 0x10 },
+        { type: "read", address: 0x20 },
+      ],
+      truncated: true,
+    })
+  })
+})
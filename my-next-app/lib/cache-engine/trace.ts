@@ -0,0 +1,216 @@
+import { ACCESS_TYPES, MAX_TRACE_ACCESSES, MAX_TRACE_ERRORS, TRACE_FORMATS } from "./constants"
+import type { AccessType, TraceAccess, TraceFormat } from "./types"
+
+export interface ParsedTrace {
+  entries: TraceAccess[]
+  errors: string[]
+  truncated?: boolean // Set when a file had more accesses than were asked for
+}
+
+// Parses a typed-in list like "0 32, W64 0x80". Addresses are decimal or 0x
+// hex, and a leading R or W marks a load or a store (loads by default).
+export function parseAddressList(text: string, maxAddress: number): ParsedTrace {
+  const entries: TraceAccess[] = []
+  const errors: string[] = []
+  const tokens = text.split(/[\s,]+/).filter(Boolean)
+
+  tokens.forEach((token, i) => {
+    const match = /^([rw]:?)?(0x[0-9a-f]+|\d+)$/i.exec(token)
+    if (!match) {
+      errors.push(`Entry ${i + 1} ("${token}") is not an address`)
+      return
+    }
+
+    const type = match[1]?.toLowerCase().startsWith("w") ? ACCESS_TYPES.WRITE : ACCESS_TYPES.READ
+    const address = Number(match[2])
+    if (address > maxAddress) {
+      errors.push(`Entry ${i + 1} (${address}) is above the largest address ${maxAddress}`)
+      return
+    }
+
+    entries.push({ address, type })
+  })
+
+  return { entries, errors }
+}
+
+export interface TraceFileOptions {
+  maxAddress: number
+  // Wrap addresses into the simulated address space instead of rejecting
+  // them. Real traces use 48 or 64-bit addresses, far beyond the visualizer's.
+  fold?: boolean
+  maxAccesses?: number // Accesses kept before the rest of the file is ignored
+}
+
+// One address as written in a file. `low` keeps the low 32 bits exactly, even
+// for 64-bit hex addresses that don't fit a double.
+interface RawAddress {
+  text: string // As written, for error messages
+  value: number
+  low: number
+}
+
+// Accesses on one line, empty for lines without any, or the reason the line is invalid
+type LineParser = (line: string) => Array<{ type: AccessType; address: RawAddress }> | string
+
+const parseHex = (digits: string): RawAddress | null => {
+  const hex = digits.replace(/^0x/i, "")
+  if (!/^[0-9a-f]+$/i.test(hex)) return null
+  return { text: digits, value: Number.parseInt(hex, 16), low: Number.parseInt(hex.slice(-8), 16) }
+}
+
+const parseNumber = (text: string): RawAddress | null => {
+  if (/^0x/i.test(text)) return parseHex(text)
+  if (!/^\d+$/.test(text)) return null
+  const value = Number(text)
+  return Number.isSafeInteger(value) ? { text, value, low: value % 2 ** 32 } : null
+}
+
+const isSize = (text: string) => /^\d+$/.test(text) && Number(text) > 0
+
+// Dinero labels: 0 read, 1 write, 2 instruction fetch, 3 escape, 4 flush
+const DINERO_TYPES: Record<string, AccessType | null> = {
+  "0": ACCESS_TYPES.READ,
+  "1": ACCESS_TYPES.WRITE,
+  "2": ACCESS_TYPES.READ,
+  "3": null,
+  "4": null,
+}
+
+const parseDineroLine: LineParser = (line) => {
+  const [label, addressText] = line.trim().split(/\s+/)
+  if (!(label in DINERO_TYPES)) return `"${label}" is not a Dinero label, expected 0 to 4`
+  if (addressText === undefined) return "Missing address"
+
+  const address = parseHex(addressText)
+  if (!address) return `"${addressText}" is not a hex address`
+
+  // Escape records and cache flushes don't access memory
+  const type = DINERO_TYPES[label]
+  return type ? [{ type, address }] : []
+}
+
+// Lackey records: "I  addr,size" for fetches, " L", " S" and " M" for data
+const parseLackeyLine: LineParser = (line) => {
+  if (line.startsWith("==")) return [] // Valgrind's own messages
+
+  const match = /^\s*([ILSM])\s+([0-9a-f]+),(\d+)\s*$/i.exec(line)
+  if (!match) return 'Not a Lackey record, expected e.g. " L 04222cac,4"'
+
+  const address = parseHex(match[2]) as RawAddress
+  if (!isSize(match[3])) return `Size ${match[3]} must be at least 1`
+
+  // A modify is a load followed by a store to the same address
+  switch (match[1].toUpperCase()) {
+    case "S":
+      return [{ type: ACCESS_TYPES.WRITE, address }]
+    case "M":
+      return [
+        { type: ACCESS_TYPES.READ, address },
+        { type: ACCESS_TYPES.WRITE, address },
+      ]
+    default:
+      return [{ type: ACCESS_TYPES.READ, address }]
+  }
+}
+
+const CSV_TYPES: Record<string, AccessType[]> = {
+  r: [ACCESS_TYPES.READ],
+  read: [ACCESS_TYPES.READ],
+  l: [ACCESS_TYPES.READ],
+  load: [ACCESS_TYPES.READ],
+  i: [ACCESS_TYPES.READ],
+  w: [ACCESS_TYPES.WRITE],
+  write: [ACCESS_TYPES.WRITE],
+  s: [ACCESS_TYPES.WRITE],
+  store: [ACCESS_TYPES.WRITE],
+  m: [ACCESS_TYPES.READ, ACCESS_TYPES.WRITE],
+  modify: [ACCESS_TYPES.READ, ACCESS_TYPES.WRITE],
+}
+
+const parseCsvLine: LineParser = (line) => {
+  const [op, addressText, sizeText, ...rest] = line.split(",").map((field) => field.trim())
+  if (rest.length > 0) return "Too many fields, expected op,address,size"
+
+  const types = CSV_TYPES[op.toLowerCase()]
+  if (!types) return `"${op}" is not an operation, expected R, W or M`
+  if (addressText === undefined || addressText === "") return "Missing address"
+
+  const address = parseNumber(addressText)
+  if (!address) return `"${addressText}" is not a decimal or 0x hex address`
+  if (sizeText !== undefined && sizeText !== "" && !isSize(sizeText)) return `Size "${sizeText}" must be at least 1`
+
+  return types.map((type) => ({ type, address }))
+}
+
+const LINE_PARSERS: Record<TraceFormat, LineParser> = {
+  dinero: parseDineroLine,
+  lackey: parseLackeyLine,
+  csv: parseCsvLine,
+}
+
+// CSV files may start with a header row such as "op,address,size"
+const isCsvHeader = (line: string) => !/\d/.test(line) && typeof parseCsvLine(line) === "string"
+
+// Guesses the format from the file extension, then from the first record
+export function detectTraceFormat(text: string, fileName = ""): TraceFormat {
+  const extension = fileName.toLowerCase().split(".").pop()
+  if (extension === "din") return TRACE_FORMATS.DINERO
+  if (extension === "csv") return TRACE_FORMATS.CSV
+
+  const first = text.split(/\r?\n/).find((line) => line.trim() !== "" && !line.trim().startsWith("#")) ?? ""
+  if (first.startsWith("==") || /^\s*[ILSM]\s+[0-9a-f]+,\d+/i.test(first)) return TRACE_FORMATS.LACKEY
+  if (first.includes(",")) return TRACE_FORMATS.CSV
+  return TRACE_FORMATS.DINERO
+}
+
+// Parses a trace file. Blank lines and lines starting with # are skipped, and
+// every error names its line. Access sizes are checked, but each access
+// touches only the block holding its first byte.
+export function parseTraceFile(
+  text: string,
+  format: TraceFormat,
+  { maxAddress, fold = false, maxAccesses = MAX_TRACE_ACCESSES }: TraceFileOptions,
+): ParsedTrace {
+  const entries: TraceAccess[] = []
+  const errors: string[] = []
+  let errorCount = 0
+  let truncated = false
+
+  const report = (lineNumber: number, message: string) => {
+    errorCount += 1
+    if (errors.length < MAX_TRACE_ERRORS) errors.push(`Line ${lineNumber}: ${message}`)
+  }
+
+  const lines = text.split(/\r?\n/)
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i]
+    if (line.trim() === "" || line.trim().startsWith("#")) continue
+    if (format === TRACE_FORMATS.CSV && entries.length === 0 && errorCount === 0 && isCsvHeader(line)) continue
+
+    const parsed = LINE_PARSERS[format](line)
+    if (typeof parsed === "string") {
+      report(i + 1, parsed)
+      continue
+    }
+
+    for (const { type, address } of parsed) {
+      if (!fold && address.value > maxAddress) {
+        report(i + 1, `Address ${address.text} is above the largest address ${maxAddress}`)
+        continue
+      }
+      if (entries.length === maxAccesses) {
+        truncated = true
+        break
+      }
+      entries.push({ type, address: fold ? address.low % (maxAddress + 1) : address.value })
+    }
+    if (truncated) break
+  }
+
+  if (errorCount > errors.length) {
+    errors.push(`…and ${errorCount - errors.length} more errors`)
+  }
+
+  return { entries, errors, truncated }
+}
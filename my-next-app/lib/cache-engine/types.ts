@@ -0,0 +1,226 @@
+import type {
+  ACCESS_TYPES,
+  ARRAY_LAYOUTS,
+  INCLUSION_POLICIES,
+  LFU_TIE_BREAKS,
+  MAPPING_TYPES,
+  REPLACEMENT_POLICIES,
+  TRACE_FORMATS,
+  TRACE_PATTERNS,
+  WRITE_MISS_POLICIES,
+  WRITE_POLICIES,
+} from "./constants"
+import type { ReplacementPolicyPlugin } from "./plugin"
+
+export type MappingType = (typeof MAPPING_TYPES)[keyof typeof MAPPING_TYPES]
+export type ReplacementPolicy = (typeof REPLACEMENT_POLICIES)[keyof typeof REPLACEMENT_POLICIES]
+export type LfuTieBreak = (typeof LFU_TIE_BREAKS)[keyof typeof LFU_TIE_BREAKS]
+
+export type AccessType = (typeof ACCESS_TYPES)[keyof typeof ACCESS_TYPES]
+export type TraceFormat = (typeof TRACE_FORMATS)[keyof typeof TRACE_FORMATS]
+export type TracePattern = (typeof TRACE_PATTERNS)[keyof typeof TRACE_PATTERNS]
+export type ArrayLayout = (typeof ARRAY_LAYOUTS)[keyof typeof ARRAY_LAYOUTS]
+export type WritePolicy = (typeof WRITE_POLICIES)[keyof typeof WRITE_POLICIES]
+export type WriteMissPolicy = (typeof WRITE_MISS_POLICIES)[keyof typeof WRITE_MISS_POLICIES]
+
+export type MissType = "compulsory" | "capacity" | "conflict"
+
+export type InclusionPolicy = (typeof INCLUSION_POLICIES)[keyof typeof INCLUSION_POLICIES]
+
+export interface CacheGeometry {
+  capacity: number // Total capacity in bytes
+  blockSize: number // Block size in bytes
+  associativity: number // Ways per set, used by set-associative mapping
+  addressBits: number
+}
+
+// Tuning knobs for the policies that have them, defaults in DEFAULT_REPLACEMENT_OPTIONS
+export interface ReplacementOptions {
+  rrpvBits: number // RRIP: width of each line's re-reference prediction value
+  bimodalProbability: number // Bimodal insertion: chance a fill is inserted as if it will be reused
+  leaderSets: number // Set dueling: sets dedicated to each of the two competing policies
+  pselBits: number // Set dueling: width of the saturating policy selector
+  nruClearInterval: number // NRU: accesses between resets of every reference bit
+  lfuDecayInterval: number // LFU decay: accesses between halvings of every count
+  lfuTieBreak: LfuTieBreak // LFU variants: which of several least-used lines goes
+}
+
+// A replacement policy written by the user, see ReplacementPolicyPlugin
+export interface CustomPolicySource {
+  id: string
+  name: string
+  source: string // JavaScript function body returning the policy object
+}
+
+export interface CacheConfig extends CacheGeometry {
+  mappingType: MappingType
+  replacementPolicy: ReplacementPolicy
+  replacementOptions?: Partial<ReplacementOptions>
+  customPolicy?: CustomPolicySource // Required when replacementPolicy is "custom"
+  writePolicy: WritePolicy
+  writeMissPolicy: WriteMissPolicy
+}
+
+// Layout of a cache once the mapping type has fixed the number of ways
+export interface DerivedGeometry {
+  numBlocks: number
+  numSets: number
+  ways: number
+  offsetBits: number
+  indexBits: number
+  tagBits: number
+}
+
+// One access of a trace
+export interface TraceAccess {
+  address: number
+  type: AccessType
+  source?: TraceSource // Set on traces compiled from a loop nest
+}
+
+// An access as it was played, with its index in the loaded trace if it came from one
+export interface TimelineAccess extends TraceAccess {
+  position?: number
+}
+
+// The array reference in a loop-nest program that produced an access
+export interface TraceSource {
+  line: number
+  start: number // Offsets of the reference in the program text
+  end: number
+  expression: string // As written, e.g. "A[i][j]"
+  element: string // With the indices worked out, e.g. "A[2][3]"
+}
+
+// An array declared in a loop-nest program
+export interface ArrayDeclaration {
+  name: string
+  dimensions: number[]
+  elementSize: number
+  base: number
+  layout: ArrayLayout
+}
+
+// Settings of the synthetic trace generator. Patterns other than sequential
+// touch elements `stride` bytes apart, starting at `base`.
+export interface TraceGeneratorParams {
+  pattern: TracePattern
+  base: number
+  stride: number
+  count: number // Accesses to generate
+  footprint: number // Distinct elements the random and cyclic patterns draw from
+  seed: number
+  zipfExponent: number // Skew s of the Zipfian pattern, higher is more skewed
+}
+
+export interface SimulatorOptions {
+  // Seeds the cache's own random number generator, so runs can be repeated
+  seed?: number
+  // Replaces the seeded generator entirely, mainly for tests
+  random?: () => number
+  // Turns a custom policy's source into a plugin. Only the sandbox worker
+  // passes one, so user code never runs on the page itself.
+  resolvePolicy?: (policy: CustomPolicySource) => ReplacementPolicyPlugin
+}
+
+export interface CacheLine {
+  valid: boolean
+  tag: number | null
+  blockAddress: number | null // Address with the offset bits dropped
+  insertedAt: number // Logical access count when the block was filled (FIFO)
+  lastUsed: number // Logical access count of the latest hit or fill (LRU), LIP fills start behind the LRU line
+  frequency: number // Accesses since the block was filled (LFU)
+  dirty: boolean // Written since the fill and not yet copied to the level below
+  rrpv: number // Re-reference prediction value (RRIP)
+  lfuKey: number // LFU-DA: frequency plus the cache age when last used
+  meta: PolicyMeta // Custom policies' per-line state
+}
+
+// Whatever a custom policy keeps about a line, it has to survive postMessage
+export type PolicyMeta = Record<string, unknown>
+
+// One of the lists a list-based policy (SLRU, 2Q, ARC) files blocks in
+export interface PolicyList {
+  name: string
+  blocks: number[] // Block addresses, LRU or oldest end first
+  ghost: boolean // Remembers evicted blocks' addresses without holding their data
+  capacity?: number // Fixed size limit, if the policy has one
+}
+
+export interface PolicyListsSnapshot {
+  lists: PolicyList[]
+  target?: number // ARC's adaptive target size for T1
+}
+
+// Part a set plays in set dueling: leader for policy A or B, or follower
+export type DuelRole = "a" | "b" | "follower"
+
+export interface DuelSnapshot {
+  policies: [ReplacementPolicy, ReplacementPolicy] // Policies A and B
+  psel: number
+  pselMax: number
+  favored: ReplacementPolicy // What follower sets currently use
+  roles: DuelRole[] // Per set
+}
+
+// Position of a line among the valid lines of its set, 0 being the newest
+export interface LineRank {
+  age: number
+  recency: number
+}
+
+export interface AddressComponents {
+  blockAddress: number
+  tag: number
+  index: number
+  offset: number
+}
+
+export interface CacheStatsSnapshot {
+  hits: number
+  compulsoryMisses: number
+  capacityMisses: number
+  conflictMisses: number
+  writebacks: number // Dirty lines evicted from this cache
+}
+
+// Block transfers between the last cache level and main memory
+export interface MemoryTrafficSnapshot {
+  reads: number
+  writes: number
+  bytesRead: number
+  bytesWritten: number
+}
+
+export interface EvictedBlock {
+  blockAddress: number
+  tag: number
+  dirty: boolean // Must be written back before it is dropped
+  nextUse?: number // OPT only: trace position of the block's next access, Infinity if never
+}
+
+export interface AccessOptions {
+  // Whether a miss may bring the block into this cache, defaults to true. Write
+  // misses also respect the configured write-miss policy.
+  allocate?: boolean
+  type?: AccessType // Defaults to a read
+  position?: number // Index in the loaded trace, lets OPT look ahead from here
+}
+
+export interface AccessResult extends AddressComponents {
+  address: number
+  type: AccessType
+  result: "hit" | "miss"
+  set: number
+  way: number // -1 when a miss did not allocate
+  lineIndex: number // Flat position of the line in the cache array, -1 when nothing was allocated
+  filled: boolean // Whether a miss brought the block in
+  victim: EvictedBlock | null
+  missType?: MissType
+}
+
+// Result of placing a block without an access, e.g. a victim moving down a level
+export interface FillResult {
+  lineIndex: number
+  victim: EvictedBlock | null
+}